@@ -0,0 +1,38 @@
+-- Manual cases for the CfxLua parser: every statement below must parse
+
+local maxSpeed <const> = 50.0
+local handle <close> = setmetatable({}, { __close = function() end })
+
+local x, y, z in GetEntityCoords(PlayerPedId())
+
+local counter = 0
+counter += 1
+counter -= 1
+counter *= 2
+counter /= 2
+counter <<= 1
+counter |= 0x10
+
+local model = `adder`
+local offset = vector3(0.0, 1.5, -0.5)
+local rotation = quat(1.0, 0.0, 0.0, 0.0)
+
+local label = PlayerData?.job?.label
+local first = Inventory?[1]
+
+-- Single-line loop bodies and nested blocks
+while not IsModelLoaded(model) do Wait(0) end
+
+while true do
+  if counter > 10 then
+    for i = 1, counter do
+      print(i)
+    end
+  end
+  Wait(500)
+end
+
+repeat Wait(100) until HasModelLoaded(model)
+
+goto continue
+::continue::
@@ -17,7 +17,7 @@ local quoted = "repeat\n  Wait(0)\nuntil value" -- inline string should be ignor
 -- this is a repeat but inside comment repeat until
 
 while condition do
-  --[[ nested [[ comment ]] should be ignored ]]
+  --[=[ nested [[ comment ]] should be ignored ]=]
   Citizen.Wait(0)
 end
 
@@ -27,7 +27,7 @@ repeat
 until finished
 
 -- Ensure global detection ignores strings
-"RegisterNetEvent('not a real call')"
+local notACall = "RegisterNetEvent('not a real call')"
 
 function test()
   local inside = true
@@ -0,0 +1,35 @@
+-- Manual cases for loop Wait() detection. Each case notes the expected result.
+
+-- warn: the nested if/for blocks must not end the loop early
+while running do
+  if debug then
+    print('tick')
+  end
+  for i = 1, 3 do
+    print(i)
+  end
+end
+
+-- ok: Wait after nested blocks is still inside the loop body
+while running do
+  if debug then
+    print('tick')
+  end
+  Wait(0)
+end
+
+-- ok: single-line loop with a body
+while not HasModelLoaded(model) do Wait(0) end
+
+-- warn: single-line loop without a Wait
+while not HasModelLoaded(model) do RequestModel(model) end
+
+-- ok: until shares a line with other code
+repeat Wait(100) count = count + 1 until count > 10
+
+-- warn: the Wait belongs to the spawned thread, not to this loop
+while true do
+  CreateThread(function()
+    Wait(1000)
+  end)
+end
@@ -0,0 +1,16 @@
+-- Expected: a global warning on line 10 and unused-directive reports on lines 4, 11, 13 and 15.
+-- jericofx-disable-file fivem-citizen-wait
+foo = 1 -- jericofx-disable-line fivem-global-variable
+-- jericofx-disable-next-line fivem-global-variable, fivem-cache-coords -- legacy
+bar = 2
+-- jericofx-disable fivem-global-variable
+baz = 3
+qux = 4
+-- jericofx-enable
+zed = 5
+-- jericofx-disable-next-line fivem-global-variable
+local ok = 1
+-- jericofx-disable-line not-a-rule
+Citizen.Wait(0)
+-- jericofx-disable-next-line
+local fine = 2
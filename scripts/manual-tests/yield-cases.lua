@@ -0,0 +1,51 @@
+-- Expected: a loop warning on line 48 only. Line 26 relies on the default yieldingFunctions.
+
+local function tick()
+    Wait(500)
+end
+
+function WaitForModel(model)
+    RequestModel(model)
+    while not HasModelLoaded(model) do Wait(0) end
+    Wait(0)
+end
+
+CreateThread(function()
+    while true do
+        tick()
+    end
+end)
+
+CreateThread(function()
+    while true do
+        WaitForModel(`adder`)
+    end
+end)
+
+CreateThread(function()
+    while true do
+        lib.waitFor(function() return true end)
+    end
+end)
+
+CreateThread(function()
+    repeat
+        if IsControlPressed(0, 38) then Wait(0) else tick() end
+    until false
+end)
+
+CreateThread(function()
+    while true do
+        if IsControlPressed(0, 38) then Wait(0) end
+    end
+end)
+
+local function maybeWait(flag)
+    if flag then return end
+    Wait(0)
+end
+CreateThread(function()
+    while true do
+        maybeWait(true)
+    end
+end)
@@ -0,0 +1,248 @@
+import { FunctionDoc, ParameterDoc } from './documentation-types';
+import { AnalysisContext, LintDiagnostic, report } from './lint-context';
+import { CallExpression, Expression, getCalleeName, getRootIdentifier, walkAst } from './lua-ast';
+
+/** What a literal argument is, as far as a documented parameter type can tell. */
+type ValueKind = 'number' | 'string' | 'boolean' | 'table' | 'function' | 'vector';
+
+/** Argument kinds each documented type accepts. Lua turns numbers into strings, and natives read booleans as 0 or 1. */
+const TYPE_KINDS: Record<string, ValueKind[]> = {
+  number: ['number', 'boolean'],
+  integer: ['number', 'boolean'],
+  int: ['number', 'boolean'],
+  float: ['number', 'boolean'],
+  double: ['number', 'boolean'],
+  // Handles are numbers too.
+  entity: ['number'],
+  ped: ['number'],
+  vehicle: ['number'],
+  object: ['number'],
+  player: ['number'],
+  cam: ['number'],
+  blip: ['number'],
+  pickup: ['number'],
+  interior: ['number'],
+  fireid: ['number'],
+  scrhandle: ['number'],
+  // The Lua runtime hashes strings passed as a Hash.
+  hash: ['number', 'string'],
+  boolean: ['boolean', 'number'],
+  bool: ['boolean', 'number'],
+  string: ['string', 'number'],
+  'char*': ['string', 'number'],
+  'const char*': ['string', 'number'],
+  vector2: ['vector', 'table'],
+  vector3: ['vector', 'table'],
+  vector4: ['vector', 'table'],
+  table: ['table', 'vector'],
+  function: ['function'],
+};
+
+/** The parameter list of one way to call a function: the declared one or an `---@overload`. */
+interface Variant {
+  parameters: ParameterDoc[];
+  min: number;
+  max: number;
+  /** Arguments from this index on may be shifted by an omitted pointer parameter, so their types are not checked. */
+  typedCount: number;
+}
+
+/**
+ * Compares calls to documented functions with their parameters: the number
+ * of arguments, and literal arguments that cannot match the parameter type.
+ * Functions documented by more than one source, and names the file defines
+ * itself, are skipped.
+ */
+export function checkCallArguments(context: AnalysisContext): LintDiagnostic[] {
+  const diagnostics: LintDiagnostic[] = [];
+  const { ast, scopes } = context;
+  if (!ast || !scopes) {
+    return diagnostics;
+  }
+
+  const assigned = new Set(
+    scopes.globalReferences.filter((reference) => reference.isWrite).map((reference) => reference.identifier.name)
+  );
+
+  walkAst(ast, {
+    enter(node) {
+      if (node.type !== 'CallExpression') {
+        return;
+      }
+      const name = getCalleeName(node);
+      const root = getRootIdentifier(node.base);
+      // Method calls pass `self`, and locals or globals the file assigns are not the documented function.
+      if (!name || name.includes(':') || !root || scopes.getReference(root)?.binding || assigned.has(root.name)) {
+        return;
+      }
+
+      const docs = context.lookupFunctionDocs(name);
+      if (docs.length === 1 && docs[0].parameters) {
+        checkCall(context, name, docs[0], node, diagnostics);
+      }
+    },
+  });
+
+  return diagnostics;
+}
+
+function checkCall(
+  context: AnalysisContext,
+  name: string,
+  doc: FunctionDoc,
+  call: CallExpression,
+  diagnostics: LintDiagnostic[]
+): void {
+  const native = isNative(doc);
+  const variants = [doc.parameters ?? [], ...(doc.overloads ?? []).map((overload) => overload.parameters)].map(
+    (parameters) => createVariant(parameters, native)
+  );
+  const args = call.arguments;
+  // A call or `...` as the last argument passes any number of values.
+  const last = args[args.length - 1];
+  const openEnded = last?.type === 'CallExpression' || last?.type === 'VarargLiteral';
+  const known = openEnded ? args.length - 1 : args.length;
+
+  const accepting = variants.filter((variant) => known <= variant.max && (openEnded || known >= variant.min));
+  if (accepting.length === 0) {
+    reportCount(context, name, variants, call, known, diagnostics);
+    return;
+  }
+
+  args.forEach((argument, index) => {
+    const kind = getLiteralKind(argument);
+    if (!kind) {
+      return;
+    }
+    // Arguments past the last parameter of a vararg function belong to `...`.
+    const parameters = accepting.map((variant) =>
+      index < variant.typedCount ? variant.parameters[Math.min(index, variant.parameters.length - 1)] : undefined
+    );
+    const mismatch = parameters.every((parameter) => {
+      const kinds = parameter && getAcceptedKinds(parameter);
+      return kinds !== undefined && !kinds.includes(kind);
+    });
+    const parameter = parameters[0];
+    if (mismatch && parameter) {
+      report(
+        context,
+        diagnostics,
+        'lua-argument-type',
+        argument.range,
+        `${name} expects ${parameter.type} for '${parameter.name}', but this argument is a ${kind}.`
+      );
+    }
+  });
+}
+
+function reportCount(
+  context: AnalysisContext,
+  name: string,
+  variants: Variant[],
+  call: CallExpression,
+  count: number,
+  diagnostics: LintDiagnostic[]
+): void {
+  const most = Math.max(...variants.map((variant) => variant.max));
+  const extra = count > most ? call.arguments[most] : undefined;
+  // Extra arguments are underlined; a missing one is reported on the function name.
+  const range = extra
+    ? { start: extra.range.start, end: call.arguments[call.arguments.length - 1].range.end }
+    : call.base.range;
+
+  const plural = (amount: number) => `${amount} argument${amount === 1 ? '' : 's'}`;
+  let message: string;
+  if (variants.length > 1) {
+    message = `No signature of ${name} takes ${plural(count)}.`;
+  } else {
+    const [{ min, max }] = variants;
+    const expected =
+      min === max
+        ? plural(min)
+        : max === Infinity
+          ? `at least ${plural(min)}`
+          : min === 0
+            ? `at most ${plural(max)}`
+            : `${min} to ${plural(max)}`;
+    message = `${name} takes ${expected}, but the call passes ${count}.`;
+  }
+  report(context, diagnostics, 'lua-argument-count', range, message);
+}
+
+/**
+ * Natives fill omitted trailing arguments with zero values, and calls such as
+ * `GetEntityCoords(ped)` rely on it. Their documentation has no optional
+ * markers, so only too many arguments are reported for them.
+ */
+function createVariant(parameters: ParameterDoc[], native: boolean): Variant {
+  const isVararg = parameters[parameters.length - 1]?.name === '...';
+  const firstPointer = parameters.findIndex(isPointer);
+  let min = 0;
+  let pointers = 0;
+  parameters.forEach((parameter, index) => {
+    if (isPointer(parameter)) {
+      pointers++;
+    } else if (!parameter.optional && parameter.name !== '...') {
+      min = index + 1 - pointers;
+    }
+  });
+  return {
+    parameters,
+    min: native ? 0 : min,
+    max: isVararg ? Infinity : parameters.length,
+    typedCount: firstPointer < 0 ? Infinity : firstPointer,
+  };
+}
+
+/** Natives from a natives database carry their namespace or hash. */
+function isNative(doc: FunctionDoc): boolean {
+  return doc.namespace !== undefined || doc.hash !== undefined;
+}
+
+/**
+ * Native pointer parameters are often left out in Lua, which returns their
+ * value instead, so they never count as required.
+ */
+function isPointer({ type }: ParameterDoc): boolean {
+  return !!type && type.trim().endsWith('*') && !/char\s*\*$/i.test(type.trim());
+}
+
+/** Kinds a parameter accepts, or undefined when its type is unknown or too loose to check. */
+function getAcceptedKinds(parameter: ParameterDoc): ValueKind[] | undefined {
+  if (!parameter.type || parameter.name === '...') {
+    return undefined;
+  }
+  const kinds = new Set<ValueKind>();
+  for (const part of parameter.type.split('|')) {
+    const type = part.trim().replace(/\?$/, '').toLowerCase();
+    if (type === 'nil') {
+      continue;
+    }
+    const accepted = type.startsWith('fun(') ? TYPE_KINDS.function : TYPE_KINDS[type];
+    if (!accepted) {
+      return undefined;
+    }
+    accepted.forEach((kind) => kinds.add(kind));
+  }
+  return kinds.size > 0 ? [...kinds] : undefined;
+}
+
+function getLiteralKind(expression: Expression): ValueKind | undefined {
+  switch (expression.type) {
+    case 'NumericLiteral':
+    case 'HashLiteral':
+      return 'number';
+    case 'StringLiteral':
+      return 'string';
+    case 'BooleanLiteral':
+      return 'boolean';
+    case 'TableConstructor':
+      return 'table';
+    case 'FunctionExpression':
+      return 'function';
+    case 'VectorLiteral':
+      return 'vector';
+    default:
+      return undefined;
+  }
+}
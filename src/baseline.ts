@@ -0,0 +1,180 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getLineBounds, LintDiagnostic } from './lint-context';
+
+/** Baseline file name, looked up at the workspace root. */
+export const BASELINE_FILE = '.jericofx-baseline.json';
+
+const BASELINE_VERSION = 1;
+
+export interface BaselineEntry {
+  /** Path relative to the baseline file, with forward slashes. */
+  file: string;
+  rule: string;
+  fingerprint: string;
+  /** Identical findings in the same file share a fingerprint. */
+  count: number;
+}
+
+/** A linted file, with the text its diagnostics were computed from. */
+export interface BaselineSource {
+  filePath: string;
+  text: string;
+  diagnostics: LintDiagnostic[];
+}
+
+export class BaselineError extends Error {
+  constructor(message: string, readonly filePath: string) {
+    super(`${path.basename(filePath)}: ${message}`);
+    this.name = 'BaselineError';
+  }
+}
+
+/**
+ * Identifies a finding by its rule and the code on its line rather than its
+ * position, so entries survive edits elsewhere in the file.
+ */
+export function getFingerprint(text: string, diagnostic: LintDiagnostic): string {
+  const { start, end } = diagnostic.range;
+  const line = getLineBounds(text, start.offset);
+  const normalize = (value: string) => value.replace(/\s+/g, ' ').trim();
+  const flagged = text.slice(start.offset, Math.min(end.offset, start.offset + 200));
+
+  return createHash('sha256')
+    .update(`${diagnostic.ruleId}\0${normalize(text.slice(line.start, line.end))}\0${normalize(flagged)}`)
+    .digest('hex')
+    .slice(0, 16);
+}
+
+/**
+ * Findings recorded in a committed baseline file. Recorded findings are
+ * marked `baselined` so adapters only report new ones.
+ */
+export class Baseline {
+  private readonly counts = new Map<string, number>();
+
+  constructor(readonly filePath: string, entries: readonly BaselineEntry[] = []) {
+    for (const entry of entries) {
+      const key = entryKey(entry.file, entry.rule, entry.fingerprint);
+      this.counts.set(key, (this.counts.get(key) ?? 0) + entry.count);
+    }
+  }
+
+  static load(filePath: string): Baseline {
+    let value: any;
+    try {
+      value = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (error) {
+      throw new BaselineError(error instanceof Error ? error.message : String(error), filePath);
+    }
+
+    const entries = value?.entries;
+    if (
+      value?.version !== BASELINE_VERSION ||
+      !Array.isArray(entries) ||
+      !entries.every(
+        (entry: any) =>
+          typeof entry?.file === 'string' &&
+          typeof entry.rule === 'string' &&
+          typeof entry.fingerprint === 'string' &&
+          Number.isInteger(entry.count) &&
+          entry.count > 0
+      )
+    ) {
+      throw new BaselineError(`expected version ${BASELINE_VERSION} with a list of entries`, filePath);
+    }
+    return new Baseline(filePath, entries);
+  }
+
+  /** Records every reported finding of `sources`. */
+  static fromSources(filePath: string, sources: readonly BaselineSource[]): Baseline {
+    const baseline = new Baseline(filePath);
+    baseline.countOccurrences(sources).forEach((count, key) => baseline.counts.set(key, count));
+    return baseline;
+  }
+
+  get size(): number {
+    let total = 0;
+    this.counts.forEach((count) => (total += count));
+    return total;
+  }
+
+  /** Returns the diagnostics with recorded findings marked `baselined`. */
+  apply(source: BaselineSource): LintDiagnostic[] {
+    const file = this.relativePath(source.filePath);
+    const used = new Map<string, number>();
+
+    return source.diagnostics.map((diagnostic) => {
+      if (diagnostic.suppressedBy) {
+        return diagnostic;
+      }
+      const key = entryKey(file, diagnostic.ruleId, getFingerprint(source.text, diagnostic));
+      const count = used.get(key) ?? 0;
+      if (count >= (this.counts.get(key) ?? 0)) {
+        return diagnostic;
+      }
+      used.set(key, count + 1);
+      return { ...diagnostic, baselined: true };
+    });
+  }
+
+  /**
+   * Drops entries for findings that no longer occur in `sources`, which
+   * should cover the whole project. Returns how many findings were removed.
+   */
+  prune(sources: readonly BaselineSource[]): number {
+    const current = this.countOccurrences(sources);
+    let removed = 0;
+
+    for (const [key, count] of [...this.counts]) {
+      const remaining = Math.min(count, current.get(key) ?? 0);
+      removed += count - remaining;
+      if (remaining > 0) {
+        this.counts.set(key, remaining);
+      } else {
+        this.counts.delete(key);
+      }
+    }
+    return removed;
+  }
+
+  /** Writes entries in a stable order so the committed file diffs cleanly. */
+  save(): void {
+    const entries: BaselineEntry[] = [...this.counts]
+      .map(([key, count]) => {
+        const [file, rule, fingerprint] = key.split('\0');
+        return { file, rule, fingerprint, count };
+      })
+      .sort((a, b) => compare(a.file, b.file) || compare(a.rule, b.rule) || compare(a.fingerprint, b.fingerprint));
+
+    fs.writeFileSync(this.filePath, `${JSON.stringify({ version: BASELINE_VERSION, entries }, null, 2)}\n`);
+  }
+
+  private countOccurrences(sources: readonly BaselineSource[]): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (const source of sources) {
+      const file = this.relativePath(source.filePath);
+      for (const diagnostic of source.diagnostics) {
+        if (diagnostic.suppressedBy) {
+          continue;
+        }
+        const key = entryKey(file, diagnostic.ruleId, getFingerprint(source.text, diagnostic));
+        counts.set(key, (counts.get(key) ?? 0) + 1);
+      }
+    }
+    return counts;
+  }
+
+  private relativePath(filePath: string): string {
+    return path.relative(path.dirname(this.filePath), filePath).split(path.sep).join('/');
+  }
+}
+
+function entryKey(file: string, rule: string, fingerprint: string): string {
+  return `${file}\0${rule}\0${fingerprint}`;
+}
+
+function compare(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
@@ -0,0 +1,112 @@
+import { LuaSyntaxError, lexLua, Token } from './lua-lexer';
+
+/** The call whose argument list contains a position, e.g. for signature help. */
+export interface CallContext {
+  /** Dotted callee name; method calls keep their colon, e.g. `player:GetName`. */
+  callee: string;
+  /** Zero-based index of the argument the position is in. */
+  activeParameter: number;
+}
+
+type Frame = { open: string; tokenIndex: number; commas: number };
+
+const CLOSING: Record<string, string> = { ')': '(', '}': '{', ']': '[' };
+
+/**
+ * Finds the innermost unclosed call before `offset`. Only the text before
+ * the position is lexed, so unfinished code after the cursor does not matter.
+ */
+export function findCallAtOffset(text: string, offset: number): CallContext | undefined {
+  const tokens = lexPrefix(text.slice(0, offset));
+  const frames: Frame[] = [];
+
+  tokens.forEach((token, tokenIndex) => {
+    if (token.type !== 'Symbol') {
+      return;
+    }
+    if (token.value === '(' || token.value === '{' || token.value === '[') {
+      frames.push({ open: token.value, tokenIndex, commas: 0 });
+    } else if (token.value in CLOSING) {
+      // Unbalanced closers from earlier statements are ignored.
+      if (frames[frames.length - 1]?.open === CLOSING[token.value]) {
+        frames.pop();
+      }
+    } else if (token.value === ',' && frames.length > 0) {
+      frames[frames.length - 1].commas++;
+    }
+  });
+
+  for (let index = frames.length - 1; index >= 0; index--) {
+    const frame = frames[index];
+    if (frame.open !== '(') {
+      continue;
+    }
+    const callee = readCallee(tokens, frame.tokenIndex);
+    if (callee) {
+      return { callee, activeParameter: frame.commas };
+    }
+  }
+  return undefined;
+}
+
+/** Lexes `prefix`; an unterminated string at the end is treated as an argument in progress. */
+function lexPrefix(prefix: string): Token[] {
+  try {
+    return lexLua(prefix).tokens;
+  } catch (error) {
+    if (!(error instanceof LuaSyntaxError) || error.range.start.offset >= prefix.length) {
+      return [];
+    }
+    return lexPrefix(prefix.slice(0, error.range.start.offset));
+  }
+}
+
+/**
+ * Reads `a.b:c` backwards from the token before `(`; declarations are skipped.
+ * A string index reads as a field, so `exports['ox_inventory']:AddItem`
+ * gives `exports.ox_inventory:AddItem`.
+ */
+function readCallee(tokens: Token[], openIndex: number): string | undefined {
+  const parts: string[] = [];
+  let index = openIndex - 1;
+
+  for (;;) {
+    const token = tokens[index];
+    if (token?.type === 'Name') {
+      parts.unshift(token.value);
+      index -= 1;
+    } else if (
+      parts.length > 0 &&
+      isSymbol(token, ']') &&
+      tokens[index - 1]?.type === 'String' &&
+      isSymbol(tokens[index - 2], '[') &&
+      tokens[index - 3]?.type === 'Name'
+    ) {
+      parts.unshift('.', tokens[index - 1].value);
+      index -= 3;
+      continue;
+    } else {
+      break;
+    }
+
+    const separator = tokens[index];
+    if (!isSymbol(separator, '.') && !isSymbol(separator, ':')) {
+      break;
+    }
+    parts.unshift(separator.value);
+    index -= 1;
+  }
+
+  if (parts.length === 0 || parts[0] === '.' || parts[0] === ':') {
+    return undefined;
+  }
+  const before = tokens[index];
+  if (before?.type === 'Keyword' && before.value === 'function') {
+    return undefined;
+  }
+  return parts.join('');
+}
+
+function isSymbol(token: Token | undefined, value: string): token is Token {
+  return token?.type === 'Symbol' && token.value === value;
+}
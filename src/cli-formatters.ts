@@ -0,0 +1,137 @@
+import * as path from 'path';
+import { isReported, LintDiagnostic, LintResult, LintSeverity } from './lint-engine';
+import { SourceRange } from './lua-ast';
+import { createSarifLog } from './sarif';
+
+export type OutputFormat = 'stylish' | 'json' | 'checkstyle' | 'sarif';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['stylish', 'json', 'checkstyle', 'sarif'];
+
+export interface FormatOptions {
+  cwd: string;
+  toolVersion: string;
+}
+
+/** Only the SARIF output lists suppressed and baselined findings; the other formats skip them. */
+export function formatResults(results: LintResult[], format: OutputFormat, options: FormatOptions): string {
+  if (format === 'sarif') {
+    const log = createSarifLog(results, { rootDir: options.cwd, toolVersion: options.toolVersion });
+    return `${JSON.stringify(log, null, 2)}\n`;
+  }
+
+  const visibleResults = results.map(({ filePath, diagnostics }) => ({
+    filePath,
+    diagnostics: diagnostics.filter(isReported),
+  }));
+  switch (format) {
+    case 'json':
+      return formatJson(visibleResults);
+    case 'checkstyle':
+      return formatCheckstyle(visibleResults);
+    default:
+      return formatStylish(visibleResults, options.cwd);
+  }
+}
+
+/** Human-readable output grouped by file, similar to ESLint's stylish formatter. */
+function formatStylish(results: LintResult[], cwd: string): string {
+  const counts: Record<LintSeverity, number> = { error: 0, warning: 0, info: 0, hint: 0 };
+  const lines: string[] = [];
+
+  for (const { filePath, diagnostics } of results) {
+    if (diagnostics.length === 0) {
+      continue;
+    }
+
+    lines.push(path.relative(cwd, filePath) || filePath);
+    const sorted = sortDiagnostics(diagnostics);
+    const rows = sorted.map((diagnostic) => {
+      counts[diagnostic.severity]++;
+      return [formatPosition(diagnostic.range), diagnostic.severity, diagnostic.message, diagnostic.ruleId];
+    });
+    const widths = [0, 1].map((column) => Math.max(...rows.map((row) => row[column].length)));
+    rows.forEach(([location, severity, message, ruleId], index) => {
+      lines.push(`  ${location.padEnd(widths[0])}  ${severity.padEnd(widths[1])}  ${message}  ${ruleId}`);
+      // The flow that led to the finding, indented under it.
+      sorted[index].related?.forEach((step) =>
+        lines.push(`  ${' '.repeat(widths[0])}    ${formatPosition(step.range)}  ${step.message}`)
+      );
+    });
+    lines.push('');
+  }
+
+  const total = counts.error + counts.warning + counts.info + counts.hint;
+  if (total === 0) {
+    return '';
+  }
+
+  lines.push(
+    `✖ ${plural(total, 'problem')} (${plural(counts.error, 'error')}, ${plural(counts.warning, 'warning')}, ` +
+      `${counts.info} info, ${plural(counts.hint, 'hint')})`
+  );
+  return `${lines.join('\n')}\n`;
+}
+
+/** Positions are one-based, like the stylish output. */
+function formatJson(results: LintResult[]): string {
+  const files = results.map(({ filePath, diagnostics }) => ({
+    filePath,
+    messages: sortDiagnostics(diagnostics).map((diagnostic) => ({
+      ruleId: diagnostic.ruleId,
+      severity: diagnostic.severity,
+      message: diagnostic.message,
+      line: diagnostic.range.start.line + 1,
+      column: diagnostic.range.start.character + 1,
+      endLine: diagnostic.range.end.line + 1,
+      endColumn: diagnostic.range.end.character + 1,
+      ...(diagnostic.tags ? { tags: diagnostic.tags } : {}),
+      ...(diagnostic.related
+        ? {
+            related: diagnostic.related.map((step) => ({
+              message: step.message,
+              line: step.range.start.line + 1,
+              column: step.range.start.character + 1,
+            })),
+          }
+        : {}),
+    })),
+  }));
+  return `${JSON.stringify(files, null, 2)}\n`;
+}
+
+/** Checkstyle XML, which most CI servers can display. */
+function formatCheckstyle(results: LintResult[]): string {
+  const lines = ['<?xml version="1.0" encoding="utf-8"?>', '<checkstyle version="4.3">'];
+
+  for (const { filePath, diagnostics } of results) {
+    lines.push(`  <file name="${escapeXml(filePath)}">`);
+    for (const diagnostic of sortDiagnostics(diagnostics)) {
+      const severity = diagnostic.severity === 'hint' ? 'info' : diagnostic.severity;
+      lines.push(
+        `    <error line="${diagnostic.range.start.line + 1}" column="${diagnostic.range.start.character + 1}" ` +
+          `severity="${severity}" message="${escapeXml(diagnostic.message)}" ` +
+          `source="jericofx.${escapeXml(diagnostic.ruleId)}" />`
+      );
+    }
+    lines.push('  </file>');
+  }
+
+  lines.push('</checkstyle>');
+  return `${lines.join('\n')}\n`;
+}
+
+function formatPosition(range: SourceRange): string {
+  return `${range.start.line + 1}:${range.start.character + 1}`;
+}
+
+function sortDiagnostics(diagnostics: LintDiagnostic[]): LintDiagnostic[] {
+  return [...diagnostics].sort((a, b) => a.range.start.offset - b.range.start.offset);
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/[<>&"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
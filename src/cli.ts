@@ -0,0 +1,287 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import { Baseline, BASELINE_FILE } from './baseline';
+import {
+  DEFAULT_GLOBALS,
+  DEFAULT_YIELDING_FUNCTIONS,
+  getPackageVersion,
+  RULE_SEVERITIES,
+  WAIT_FUNCTIONS,
+} from './config';
+import { formatResults, OUTPUT_FORMATS, OutputFormat } from './cli-formatters';
+import {
+  getDefaultDocumentationCacheFile,
+  getDocumentedFunctions,
+  getDocumentedGlobals,
+  readDocumentationCache,
+} from './documentation-cache';
+import { DocumentationCache } from './documentation-types';
+import { MANIFEST_FILES, ManifestIndex } from './fxmanifest';
+import {
+  AnalysisContext,
+  compareSeverity,
+  createAnalysisContext,
+  isReported,
+  LintOptions,
+  LintResult,
+  LintSeverity,
+  lintContext,
+  resolveRuleSeverities,
+} from './lint-engine';
+import { indexNativeHashes, isGameNativeHash } from './native-hashes';
+import { ProjectConfigLoader } from './project-config';
+import { findFiles, findLuaFiles } from './workspace-files';
+import { indexWorkspaceFiles, WorkspaceIndex } from './workspace-index';
+
+interface CliOptions {
+  paths: string[];
+  format: OutputFormat;
+  failOn: LintSeverity;
+  docsCache: string;
+  root?: string;
+  baseline?: string;
+}
+
+class UsageError extends Error {}
+
+const USAGE = `Usage: jericofx-lint [options] [paths...]
+
+Lints Lua files with the JericoFX Lua Tools rules. Directories are searched
+recursively; the current directory is used when no path is given.
+
+Options:
+  -f, --format <name>     Output format: ${OUTPUT_FORMATS.join(', ')} (default: stylish)
+  --fail-on <severity>    Exit with code 1 when a problem of this severity or
+                          higher is found: hint, info, warning, error (default: error)
+  --docs-cache <file>     Documentation cache to read known globals from
+                          (default: the cache of the VS Code extension)
+  --root <dir>            Do not read project config files above this folder
+                          (default: search up to the filesystem root)
+  --baseline <file>       Only report findings missing from this baseline file
+                          (default: ${BASELINE_FILE} in the current directory, if present)
+  -h, --help              Show this help
+  -v, --version           Show the version`;
+
+function parseArguments(argv: string[]): CliOptions | undefined {
+  const options: CliOptions = {
+    paths: [],
+    format: 'stylish',
+    failOn: 'error',
+    docsCache: process.env.JERICOFX_DOCS_CACHE ?? getDefaultDocumentationCacheFile(),
+  };
+
+  for (let index = 0; index < argv.length; index++) {
+    const argument = argv[index];
+    const value = () => {
+      const next = argv[++index];
+      if (next === undefined) {
+        throw new UsageError(`${argument} needs a value`);
+      }
+      return next;
+    };
+
+    switch (argument) {
+      case '-h':
+      case '--help':
+        console.log(USAGE);
+        return undefined;
+      case '-v':
+      case '--version':
+        console.log(getPackageVersion());
+        return undefined;
+      case '-f':
+      case '--format': {
+        const format = value() as OutputFormat;
+        if (!OUTPUT_FORMATS.includes(format)) {
+          throw new UsageError(`unknown format '${format}'`);
+        }
+        options.format = format;
+        break;
+      }
+      case '--fail-on': {
+        const severity = value() as LintSeverity;
+        if (severity === ('off' as string) || !RULE_SEVERITIES.includes(severity)) {
+          throw new UsageError(`unknown severity '${severity}'`);
+        }
+        options.failOn = severity;
+        break;
+      }
+      case '--docs-cache':
+        options.docsCache = path.resolve(value());
+        break;
+      case '--root':
+        options.root = path.resolve(value());
+        break;
+      case '--baseline':
+        options.baseline = path.resolve(value());
+        break;
+      default:
+        if (argument.startsWith('-')) {
+          throw new UsageError(`unknown option '${argument}'`);
+        }
+        if (!fs.existsSync(argument)) {
+          throw new UsageError(`'${argument}' does not exist`);
+        }
+        options.paths.push(path.resolve(argument));
+    }
+  }
+
+  if (options.paths.length === 0) {
+    options.paths.push(process.cwd());
+  }
+  if (!options.baseline && fs.existsSync(BASELINE_FILE)) {
+    options.baseline = path.resolve(BASELINE_FILE);
+  }
+  return options;
+}
+
+function loadDocumentation(cacheFile: string): DocumentationCache[] {
+  try {
+    return [...readDocumentationCache(cacheFile).values()];
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`jericofx-lint: could not read documentation cache ${cacheFile}: ${message}`);
+    return [];
+  }
+}
+
+/**
+ * Folders whose resources make up the workspace: --root, or else a folder
+ * around each linted path. A file or folder in a resource stands for every
+ * resource of its project, so linting one resource still sees the others.
+ * The project is the nearest folder with a `root: true` config or a `.git`
+ * folder; without one, the resource's parent folder is used when it lies in
+ * the current directory, and the resource alone otherwise.
+ */
+function getWorkspaceRoots(
+  options: CliOptions,
+  manifests: ManifestIndex,
+  projectConfigs: ProjectConfigLoader
+): string[] {
+  if (options.root) {
+    return [options.root];
+  }
+  const roots = options.paths.map((target) => {
+    const directory = fs.statSync(target).isFile() ? path.dirname(target) : target;
+    const projectRoot = findProjectRoot(directory, projectConfigs);
+    // `findResource` starts in the folder of the path it is given.
+    const resource = manifests.findResource(path.join(directory, MANIFEST_FILES[0]));
+    if (!resource) {
+      return projectRoot ?? target;
+    }
+    if (projectRoot && isInside(resource.directory, projectRoot)) {
+      return projectRoot;
+    }
+    const parent = path.dirname(resource.directory);
+    return isInside(parent, process.cwd()) ? parent : resource.directory;
+  });
+  return [...new Set(roots)];
+}
+
+function findProjectRoot(directory: string, projectConfigs: ProjectConfigLoader): string | undefined {
+  for (let current = path.resolve(directory); ; ) {
+    if (projectConfigs.isRootDirectory(current) || fs.existsSync(path.join(current, '.git'))) {
+      return current;
+    }
+    const parent = path.dirname(current);
+    if (parent === current) {
+      return undefined;
+    }
+    current = parent;
+  }
+}
+
+function isInside(child: string, parent: string): boolean {
+  const relative = path.relative(parent, child);
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+function run(argv: string[]): number {
+  const options = parseArguments(argv);
+  if (!options) {
+    return 0;
+  }
+
+  const files = options.paths.flatMap(findLuaFiles);
+
+  const baseline = options.baseline ? Baseline.load(options.baseline) : undefined;
+  const projectConfigs = new ProjectConfigLoader();
+  const manifests = new ManifestIndex();
+  const documentation = loadDocumentation(options.docsCache);
+  const documentedGlobals = getDocumentedGlobals(documentation);
+  const documentedFunctions = getDocumentedFunctions(documentation);
+  const nativeHashes = indexNativeHashes(documentation.flatMap((cache) => [...cache.functions.values()]));
+  const coversGameNatives = [...nativeHashes.keys()].some(isGameNativeHash);
+  const roots = getWorkspaceRoots(options, manifests, projectConfigs);
+  const knownResources = new Set(
+    roots
+      .flatMap((target) => findFiles(target, (fileName) => MANIFEST_FILES.includes(fileName)))
+      .map((manifestPath) => path.basename(path.dirname(manifestPath)))
+  );
+  // Files that are not linted are still indexed, so their events, exports and yielding helpers are known.
+  const workspaceFiles = new Set([...files, ...roots.flatMap(findLuaFiles)]);
+  const reportedErrors = new Set<string>();
+  const contexts: AnalysisContext[] = [];
+  const index = new WorkspaceIndex();
+
+  for (const filePath of workspaceFiles) {
+    const project = projectConfigs.resolve(filePath, options.root);
+    project.errors
+      .filter((error) => !reportedErrors.has(error.message))
+      .forEach((error) => {
+        reportedErrors.add(error.message);
+        console.error(`jericofx-lint: ignoring ${error.message}`);
+      });
+    if (projectConfigs.isIgnored(filePath, project)) {
+      continue;
+    }
+
+    const file = manifests.getFileResource(filePath, options.root);
+    const lintOptions: LintOptions = {
+      knownGlobals: new Set([...documentedGlobals, ...DEFAULT_GLOBALS, ...project.globals]),
+      yieldingFunctions: new Set([...WAIT_FUNCTIONS, ...DEFAULT_YIELDING_FUNCTIONS, ...project.yieldingFunctions]),
+      severities: resolveRuleSeverities(project.rules),
+      lookupYieldingGlobal: (name) => index.findYieldingFunction(name, filePath),
+      resource: file?.resource,
+      side: file?.side,
+      lookupFunctionDocs: (name) => documentedFunctions.get(name) ?? [],
+      knownResources,
+      lookupWorkspaceEvents: () => index.getEventReferences(filePath),
+      lookupExports: (resource) => index.getExports(resource, filePath),
+      lookupNativeHash: nativeHashes.size > 0 ? (hash) => nativeHashes.get(hash) : undefined,
+      coversGameNatives,
+    };
+    contexts.push(createAnalysisContext(fs.readFileSync(filePath, 'utf8'), filePath, lintOptions));
+  }
+
+  indexWorkspaceFiles(index, contexts);
+
+  const linted = new Set(files);
+  const results: LintResult[] = contexts.filter(({ filePath }) => linted.has(filePath)).map((context) => {
+    const { filePath, text } = context;
+    const diagnostics = lintContext(context, { includeSuppressed: options.format === 'sarif' });
+    return { filePath, diagnostics: baseline ? baseline.apply({ filePath, text, diagnostics }) : diagnostics };
+  });
+  process.stdout.write(
+    formatResults(results, options.format, { cwd: process.cwd(), toolVersion: getPackageVersion() })
+  );
+
+  const failed = results.some(({ diagnostics }) =>
+    diagnostics.some(
+      (diagnostic) => isReported(diagnostic) && compareSeverity(diagnostic.severity, options.failOn) >= 0
+    )
+  );
+  return failed ? 1 : 0;
+}
+
+try {
+  process.exitCode = run(process.argv.slice(2));
+} catch (error) {
+  const message = error instanceof Error ? error.message : String(error);
+  console.error(`jericofx-lint: ${message}`);
+  if (error instanceof UsageError) {
+    console.error('Run jericofx-lint --help for usage.');
+  }
+  process.exitCode = 2;
+}
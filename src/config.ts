@@ -1,72 +1,270 @@
-export interface LinterConfig {
-    enableWhileLoopCheck: boolean;
-    enableRepeatLoopCheck: boolean;
-    enableGlobalVariableCheck: boolean;
-    enablePerformanceCheck: boolean;
-    enableCitizenPatterns: boolean;
-}
+import * as fs from 'fs';
+import * as path from 'path';
 
-export const WAIT_PATTERNS = [
-    /\bWait\s*\(/,
-    /\bCitizen\.Wait\s*\(/,
-    /\bSetTimeout\s*\(/
+/** Calls that always yield the current thread, in addition to `yieldingFunctions`. */
+export const WAIT_FUNCTIONS = [
+    'Wait',
+    'Citizen.Wait',
+    'Citizen.Await'
 ];
 
-export const LOOP_PATTERNS = {
-    WHILE: /\bwhile\s+.+\s+do\b/,
-    REPEAT: /\brepeat\b/
-};
+/** Defaults of the `globals` and `yieldingFunctions` settings, shared with the CLI. */
+export const DEFAULT_GLOBALS = ['Config'];
 
-export const GLOBAL_EXCEPTIONS = [
-    'Config',
-    'exports',
-    'RegisterNetEvent',
-    'RegisterServerEvent',
-    'AddEventHandler',
-    'TriggerEvent',
-    'TriggerServerEvent',
-    'TriggerClientEvent'
+export const DEFAULT_YIELDING_FUNCTIONS = [
+    'lib.waitFor',
+    'lib.callback.await',
+    'lib.progressBar',
+    'lib.progressCircle'
 ];
 
-export const PERFORMANCE_PATTERNS = {
-    DEPRECATED_FUNCTIONS: [
-        {
-            pattern: /GetPlayerPed\(-1\)/g,
-            replacement: 'PlayerPedId()',
-            message: 'Use PlayerPedId() instead of GetPlayerPed(-1) for better performance.'
-        },
-        {
-            pattern: /GetPlayerServerId\(PlayerId\(\)\)/g,
-            replacement: 'GetPlayerServerId(PlayerId())',
-            message: 'Consider caching player server ID if used frequently.'
-        }
-    ]
-};
+export type RuleSeverity = 'off' | 'hint' | 'info' | 'warning' | 'error';
+
+export type RuleCategory = 'syntax' | 'correctness' | 'security' | 'performance' | 'style';
+
+export interface RuleMetadata {
+    id: string;
+    defaultSeverity: RuleSeverity;
+    category: RuleCategory;
+    description: string;
+    /** Older boolean setting that still switches the rule off when set to false. */
+    legacySetting?: string;
+}
 
+export const RULE_SEVERITIES: RuleSeverity[] = ['off', 'hint', 'info', 'warning', 'error'];
 
+export const RULE_DOCS_URL = 'https://github.com/JericoFX/jericofx-lua-tools/blob/main/docs/rules.md';
 
-export const CITIZEN_PATTERNS = {
-    CREATE_THREAD: {
-        pattern: /Citizen\.CreateThread/g,
-        replacement: 'CreateThread',
-        message: 'Use CreateThread instead of Citizen.CreateThread.'
-    },
-    WAIT: {
-        pattern: /Citizen\.Wait/g,
-        replacement: 'Wait',
-        message: 'Use Wait instead of Citizen.Wait.'
+// Keep in the same order as docs/rules.md.
+export const RULES: RuleMetadata[] = [
+    {
+        id: 'lua-syntax-error',
+        defaultSeverity: 'error',
+        category: 'syntax',
+        description: 'The file does not parse as CfxLua.'
+    },
+    {
+        id: 'fivem-while-no-wait',
+        defaultSeverity: 'warning',
+        category: 'correctness',
+        description: 'A while loop never yields, which freezes the client or server.',
+        legacySetting: 'enableWhileLoopCheck'
+    },
+    {
+        id: 'fivem-repeat-no-wait',
+        defaultSeverity: 'warning',
+        category: 'correctness',
+        description: 'A repeat...until loop never yields, which freezes the client or server.',
+        legacySetting: 'enableRepeatLoopCheck'
+    },
+    {
+        id: 'fivem-global-variable',
+        defaultSeverity: 'info',
+        category: 'correctness',
+        description: 'An assignment creates a global variable that is not declared local.',
+        legacySetting: 'enableGlobalVariableCheck'
+    },
+    {
+        id: 'lua-function-order-error',
+        defaultSeverity: 'error',
+        category: 'correctness',
+        description: 'A local function is called before its declaration, so the call resolves to a nil global.',
+        legacySetting: 'enableLocalFunctionOrderCheck'
+    },
+    {
+        id: 'lua-argument-count',
+        defaultSeverity: 'warning',
+        category: 'correctness',
+        description: 'A call to a documented function passes more or fewer arguments than it takes.'
+    },
+    {
+        id: 'lua-argument-type',
+        defaultSeverity: 'warning',
+        category: 'correctness',
+        description: 'A literal argument does not match the documented type of its parameter.'
+    },
+    {
+        id: 'lua-deprecated',
+        defaultSeverity: 'warning',
+        category: 'correctness',
+        description: 'A call to a function that loaded documentation marks as deprecated.'
+    },
+    {
+        id: 'fivem-unknown-native-hash',
+        defaultSeverity: 'warning',
+        category: 'correctness',
+        description: 'Citizen.InvokeNative is called with a hash that no loaded native has.'
+    },
+    {
+        id: 'fivem-wrong-side-native',
+        defaultSeverity: 'warning',
+        category: 'correctness',
+        description: 'A script calls a native that only exists on the other side, e.g. a server native in a client script.'
+    },
+    {
+        id: 'fivem-wrong-side-event',
+        defaultSeverity: 'error',
+        category: 'correctness',
+        description: 'TriggerClientEvent is called in a client script, or TriggerServerEvent in a server script.'
+    },
+    {
+        id: 'fivem-unhandled-event',
+        defaultSeverity: 'warning',
+        category: 'correctness',
+        description: 'An event is triggered, but no script on the receiving side registers a handler for it.'
+    },
+    {
+        id: 'fivem-untriggered-event',
+        defaultSeverity: 'info',
+        category: 'correctness',
+        description: 'An event handler is registered, but nothing in the workspace triggers the event.'
+    },
+    {
+        id: 'fivem-unknown-export',
+        defaultSeverity: 'warning',
+        category: 'correctness',
+        description: 'A call to an export that the resource does not declare, or only declares on the other side.'
+    },
+    {
+        id: 'fivem-unknown-export-resource',
+        defaultSeverity: 'warning',
+        category: 'correctness',
+        description: 'A call to an export of a resource that is not in the workspace.'
+    },
+    {
+        id: 'fivem-client-amount',
+        defaultSeverity: 'warning',
+        category: 'security',
+        description: 'A server net event handler gives money or items using an amount or item the client sent.'
+    },
+    {
+        id: 'fivem-client-code-execution',
+        defaultSeverity: 'error',
+        category: 'security',
+        description: 'A server net event handler passes client input to ExecuteCommand, load or a similar function.'
+    },
+    {
+        id: 'fivem-handler-no-source',
+        defaultSeverity: 'info',
+        category: 'security',
+        description: 'A server net event handler never reads source, so it cannot check which player triggered it.'
+    },
+    {
+        id: 'fivem-unchecked-privileged-native',
+        defaultSeverity: 'warning',
+        category: 'security',
+        description: 'A server net event handler calls a privileged native without a permission or distance check before it.'
+    },
+    {
+        id: 'fivem-lua54-syntax',
+        defaultSeverity: 'error',
+        category: 'syntax',
+        description: "A script uses Lua 5.4 syntax such as <const> but its resource manifest does not set lua54 'yes'."
+    },
+    {
+        id: 'fxmanifest-missing-key',
+        defaultSeverity: 'error',
+        category: 'correctness',
+        description: 'A resource manifest does not declare fx_version or game.'
+    },
+    {
+        id: 'fxmanifest-missing-file',
+        defaultSeverity: 'warning',
+        category: 'correctness',
+        description: 'A resource manifest names a file, or a glob, that matches no file in the resource.'
+    },
+    {
+        id: 'fxmanifest-legacy-resource',
+        defaultSeverity: 'warning',
+        category: 'style',
+        description: 'The resource uses the deprecated __resource.lua manifest instead of fxmanifest.lua.'
+    },
+    {
+        id: 'fxmanifest-unknown-dependency',
+        defaultSeverity: 'warning',
+        category: 'correctness',
+        description: 'A resource manifest depends on a resource that is not in the workspace.'
+    },
+    {
+        id: 'jericofx-unused-directive',
+        defaultSeverity: 'info',
+        category: 'correctness',
+        description: 'A jericofx-disable comment suppresses nothing, or names a rule that does not exist.'
+    },
+    {
+        id: 'fivem-performance-ped',
+        defaultSeverity: 'hint',
+        category: 'performance',
+        description: 'GetPlayerPed(-1) is slower than PlayerPedId(), which replaces it.',
+        legacySetting: 'enablePerformanceCheck'
+    },
+    {
+        id: 'fivem-cache-coords',
+        defaultSeverity: 'hint',
+        category: 'performance',
+        description: 'GetEntityCoords(PlayerPedId()) is worth caching when called often.',
+        legacySetting: 'enablePerformanceCheck'
+    },
+    {
+        id: 'fivem-cache-hash',
+        defaultSeverity: 'hint',
+        category: 'performance',
+        description: 'GetHashKey with a constant string inside a loop can be a backtick literal.',
+        legacySetting: 'enablePerformanceCheck'
+    },
+    {
+        id: 'fivem-modern-event',
+        defaultSeverity: 'info',
+        category: 'style',
+        description: 'RegisterServerEvent without a handler can be replaced by RegisterNetEvent with a callback.',
+        legacySetting: 'enableNetEventCheck'
+    },
+    {
+        id: 'fivem-combine-event',
+        defaultSeverity: 'hint',
+        category: 'style',
+        description: 'RegisterNetEvent followed by AddEventHandler can be a single RegisterNetEvent call.',
+        legacySetting: 'enableNetEventCheck'
+    },
+    {
+        id: 'fivem-style-spacing',
+        defaultSeverity: 'hint',
+        category: 'style',
+        description: 'Handler parameters after `source` are missing a space after the comma.',
+        legacySetting: 'enableNetEventCheck'
+    },
+    {
+        id: 'fivem-citizen-create-thread',
+        defaultSeverity: 'info',
+        category: 'style',
+        description: 'Citizen.CreateThread can be written as CreateThread.',
+        legacySetting: 'enableCitizenPatterns'
+    },
+    {
+        id: 'fivem-citizen-wait',
+        defaultSeverity: 'info',
+        category: 'style',
+        description: 'Citizen.Wait can be written as Wait.',
+        legacySetting: 'enableCitizenPatterns'
+    },
+    {
+        id: 'fivem-invoke-native',
+        defaultSeverity: 'info',
+        category: 'style',
+        description: 'Citizen.InvokeNative is called with the hash of a native that can be called by name.'
     }
-};
+];
 
-export const DIAGNOSTIC_CODES = {
-    WHILE_NO_WAIT: 'fivem-while-no-wait',
-    REPEAT_NO_WAIT: 'fivem-repeat-no-wait',
-    GLOBAL_VARIABLE: 'fivem-global-variable',
-    PERFORMANCE_PED: 'fivem-performance-ped',
-    CACHE_COORDS: 'fivem-cache-coords',
-    MODERN_EVENT: 'fivem-modern-event',
-    COMBINE_EVENT: 'fivem-combine-event',
-    STYLE_SPACING: 'fivem-style-spacing',
-    CITIZEN_CREATE_THREAD: 'fivem-citizen-create-thread',
-    CITIZEN_WAIT: 'fivem-citizen-wait'
-}; 
\ No newline at end of file
+export function getRule(id: string): RuleMetadata | undefined {
+    return RULES.find(rule => rule.id === id);
+}
+
+export function getRuleDocsUrl(id: string): string {
+    return `${RULE_DOCS_URL}#${id}`;
+}
+
+/** Version of the installed package, reported by the CLI and in SARIF logs. */
+export function getPackageVersion(): string {
+    const packageJson = JSON.parse(fs.readFileSync(path.join(__dirname, '..', 'package.json'), 'utf8'));
+    return packageJson.version;
+}
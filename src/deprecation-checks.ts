@@ -0,0 +1,98 @@
+import { AnalysisContext, LintDiagnostic, LintFix, report } from './lint-context';
+import { CallExpression, getCalleeName, getRootIdentifier, walkAst } from './lua-ast';
+
+/**
+ * A call that is deprecated only with certain arguments, which function
+ * documentation cannot express.
+ */
+interface DeprecatedCall {
+  name: string;
+  /** Source text of every argument, whitespace ignored, e.g. `['-1']`. */
+  arguments: string[];
+  /** Code that replaces the whole call. */
+  replacement: string;
+  ruleId: string;
+  message: string;
+}
+
+const DEPRECATED_CALLS: DeprecatedCall[] = [
+  {
+    name: 'GetPlayerPed',
+    arguments: ['-1'],
+    replacement: 'PlayerPedId()',
+    ruleId: 'fivem-performance-ped',
+    message: 'Use PlayerPedId() instead of GetPlayerPed(-1) for better performance.',
+  },
+];
+
+/**
+ * Reports calls to functions that loaded documentation marks as deprecated,
+ * through `---@deprecated` or the natives `deprecated` flag, and the calls
+ * listed in `DEPRECATED_CALLS`.
+ */
+export function checkDeprecatedCalls(context: AnalysisContext): LintDiagnostic[] {
+  const diagnostics: LintDiagnostic[] = [];
+  const { ast, scopes } = context;
+  if (!ast || !scopes) {
+    return diagnostics;
+  }
+
+  const assigned = new Set(
+    scopes.globalReferences.filter((reference) => reference.isWrite).map((reference) => reference.identifier.name)
+  );
+
+  walkAst(ast, {
+    enter(node) {
+      if (node.type !== 'CallExpression') {
+        return;
+      }
+      const name = getCalleeName(node);
+      const root = getRootIdentifier(node.base);
+      if (!name || name.includes(':') || !root || scopes.getReference(root)?.binding || assigned.has(root.name)) {
+        return;
+      }
+
+      const call = DEPRECATED_CALLS.find((entry) => entry.name === name && hasArguments(context, node, entry.arguments));
+      if (call) {
+        const fix: LintFix = {
+          title: `Replace with ${call.replacement}`,
+          edits: [{ range: node.range, newText: call.replacement }],
+        };
+        markDeprecated(report(context, diagnostics, call.ruleId, node.range, call.message, fix));
+        return;
+      }
+
+      // A name documented by several sources is only reported when all of them deprecate it.
+      const docs = context.lookupFunctionDocs(name);
+      if (docs.length === 0 || !docs.every((doc) => doc.deprecated)) {
+        return;
+      }
+      const { deprecationNote, replacement } = docs[0];
+      const message = deprecationNote
+        ? `${name} is deprecated: ${deprecationNote}`
+        : `${name} is deprecated.${replacement ? ` Use ${replacement} instead.` : ''}`;
+      const fix: LintFix | undefined = replacement
+        ? { title: `Replace with ${replacement}`, edits: [{ range: node.base.range, newText: replacement }] }
+        : undefined;
+      markDeprecated(report(context, diagnostics, 'lua-deprecated', node.base.range, message, fix));
+    },
+  });
+
+  return diagnostics;
+}
+
+function hasArguments(context: AnalysisContext, call: CallExpression, expected: string[]): boolean {
+  return (
+    call.arguments.length === expected.length &&
+    call.arguments.every(
+      ({ range }, index) =>
+        context.text.slice(range.start.offset, range.end.offset).replace(/\s+/g, '') === expected[index]
+    )
+  );
+}
+
+function markDeprecated(diagnostic: LintDiagnostic | undefined): void {
+  if (diagnostic) {
+    diagnostic.tags = ['deprecated'];
+  }
+}
@@ -0,0 +1,83 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DocumentationCache, FunctionDoc } from './documentation-types';
+
+export const DOCUMENTATION_CACHE_FILE = 'documentation.json';
+
+/** Extension id as used by VS Code for the global storage folder. */
+const EXTENSION_STORAGE_ID = 'jericofx.jericofx-lua-tools';
+
+/** Reads the cache written by the extension; missing files give an empty cache. */
+export function readDocumentationCache(cacheFile: string): Map<string, DocumentationCache> {
+    const cache = new Map<string, DocumentationCache>();
+    if (!fs.existsSync(cacheFile)) {
+        return cache;
+    }
+
+    const cacheData = JSON.parse(fs.readFileSync(cacheFile, 'utf8'));
+    for (const [sourceName, data] of Object.entries<any>(cacheData)) {
+        cache.set(sourceName, {
+            functions: new Map(Object.entries(data.functions)) as Map<string, FunctionDoc>,
+            names: data.names,
+            lastUpdate: new Date(data.lastUpdate),
+            source: data.source,
+            etag: data.etag,
+            lastModified: data.lastModified
+        });
+    }
+    return cache;
+}
+
+export function writeDocumentationCache(cacheFile: string, cache: Map<string, DocumentationCache>): void {
+    const cacheData = Object.fromEntries(
+        Array.from(cache.entries()).map(([key, value]) => [
+            key,
+            {
+                functions: Object.fromEntries(value.functions),
+                names: value.names,
+                lastUpdate: value.lastUpdate.toISOString(),
+                source: value.source,
+                etag: value.etag,
+                lastModified: value.lastModified
+            }
+        ])
+    );
+    fs.writeFileSync(cacheFile, JSON.stringify(cacheData, null, 2));
+}
+
+/** Root names of every documented function (`lib` for `lib.callback`). */
+export function getDocumentedGlobals(caches: Iterable<DocumentationCache>): Set<string> {
+    const globals = new Set<string>();
+    for (const cache of caches) {
+        for (const name of cache.functions.keys()) {
+            globals.add(name.split(/[.:]/)[0]);
+        }
+    }
+    return globals;
+}
+
+/**
+ * Location of the cache of a default VS Code install, so the CLI can reuse
+ * what the extension already downloaded.
+ */
+export function getDefaultDocumentationCacheFile(): string {
+    const home = os.homedir();
+    const userDir = process.platform === 'win32'
+        ? path.join(process.env.APPDATA ?? path.join(home, 'AppData', 'Roaming'), 'Code', 'User')
+        : process.platform === 'darwin'
+            ? path.join(home, 'Library', 'Application Support', 'Code', 'User')
+            : path.join(process.env.XDG_CONFIG_HOME ?? path.join(home, '.config'), 'Code', 'User');
+    return path.join(userDir, 'globalStorage', EXTENSION_STORAGE_ID, 'documentation', DOCUMENTATION_CACHE_FILE);
+}
+
+/** Documentation of every function by name, one entry per source that documents it. */
+export function getDocumentedFunctions(caches: Iterable<DocumentationCache>): Map<string, FunctionDoc[]> {
+    const functions = new Map<string, FunctionDoc[]>();
+    for (const cache of caches) {
+        for (const [name, func] of cache.functions) {
+            functions.set(name, [...(functions.get(name) ?? []), func]);
+        }
+    }
+    return functions;
+}
@@ -1,20 +1,59 @@
-import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
+import { fileURLToPath } from 'url';
 import { DocumentationSource, FunctionDoc, DocumentationCache } from './documentation-types';
 import { DocumentationParser } from './documentation-parser';
+import {
+    DOCUMENTATION_CACHE_FILE,
+    getDocumentedGlobals,
+    readDocumentationCache,
+    writeDocumentationCache
+} from './documentation-cache';
+import { joaat } from './joaat';
+import { generateLuaLsDefinitions, LUALS_META_MARKER } from './luals-meta';
+import { indexNativeHashes, isGameNativeHash } from './native-hashes';
+import { PROJECT_CONFIG_FILES, ResolvedProjectConfig } from './project-config';
+
+const MAX_SOURCE_SIZE = 10 * 1024 * 1024;
+// The official natives database is larger than any hand-written source.
+const MAX_NATIVES_DATABASE_SIZE = 64 * 1024 * 1024;
+
+interface FetchedSource {
+    content: string;
+    etag?: string;
+    lastModified?: string;
+}
+
+export interface DocumentationSettings {
+    documentationSources: DocumentationSource[];
+    autoLoadLocalTypes: boolean;
+}
+
+/** Editor services used by the manager; the language server implements them over LSP. */
+export interface DocumentationHost {
+    getSettings(): DocumentationSettings;
+    /** Workspace files with one of the given names, outside node_modules. */
+    findFiles(fileNames: string[]): Promise<string[]>;
+    showMessage(type: 'info' | 'warning' | 'error', message: string): void;
+    withProgress(title: string, task: (report: (message: string) => void) => Promise<void>): Promise<void>;
+    asRelativePath(filePath: string): string;
+}
 
 export class DocumentationManager {
     private cache: Map<string, DocumentationCache> = new Map();
-    private context: vscode.ExtensionContext;
-    private cacheDir: string;
     private readonly maxConcurrentDownloads = 2;
     private activeDownloads = 0;
     private downloadQueue: Array<() => void> = [];
-
-    constructor(context: vscode.ExtensionContext) {
-        this.context = context;
-        this.cacheDir = path.join(context.globalStorageUri.fsPath, 'documentation');
+    // Sources declared only in project config files; visible to the files those configs cover.
+    private projectSourceNames = new Set<string>();
+    private hashIndexes = new WeakMap<DocumentationCache, Map<string, FunctionDoc>>();
+    private nameIndexes = new WeakMap<DocumentationCache, Map<number, string[]>>();
+
+    constructor(
+        private readonly cacheDir: string,
+        private readonly host: DocumentationHost,
+        private readonly resolveProjectConfig: (filePath: string) => ResolvedProjectConfig
+    ) {
         console.log('DocumentationManager initialized, cache dir:', this.cacheDir);
         this.ensureCacheDir();
         this.loadCachedDocumentation();
@@ -29,8 +68,7 @@ export class DocumentationManager {
 
     async refreshDocumentation(): Promise<void> {
         console.log('Refreshing documentation...');
-        const config = vscode.workspace.getConfiguration('jericofxLuaTools');
-        const sources = config.get<DocumentationSource[]>('documentationSources', []);
+        const sources = this.host.getSettings().documentationSources;
 
         console.log('Documentation sources found:', sources.length);
         sources.forEach(source => console.log(`- ${source.name}: ${source.enabled ? 'enabled' : 'disabled'}`));
@@ -38,79 +76,54 @@ export class DocumentationManager {
         const enabledSources = sources.filter(source => source.enabled);
         console.log('Enabled sources:', enabledSources.length);
 
-        if (enabledSources.length === 0) {
-            vscode.window.showWarningMessage('No enabled documentation sources found. Please check your settings.');
-            return;
+        if (enabledSources.length === 0 && this.projectSourceNames.size === 0) {
+            this.host.showMessage('warning', 'No enabled documentation sources found. Please check your settings.');
         }
 
-        await vscode.window.withProgress({
-            location: vscode.ProgressLocation.Notification,
-            title: 'Updating documentation sources',
-            cancellable: false
-        }, async (progress) => {
-            progress.report({ message: 'Starting downloads...' });
-            const promises = enabledSources.map(source => this.runWithSemaphore(() => this.downloadAndParseSource(source, progress)));
+        await this.host.withProgress('Updating documentation sources', async (report) => {
+            report('Starting downloads...');
+            const promises = enabledSources.map(source => this.runWithSemaphore(() => this.downloadAndParseSource(source, report)));
             await Promise.all(promises);
         });
 
         // Auto-detect and load local types.lua files
         await this.loadLocalTypesFiles();
 
+        await this.syncProjectSources(false);
+
         this.saveCacheToFile();
 
         console.log('Documentation refresh completed. Total cached sources:', this.cache.size);
     }
 
-    private async downloadAndParseSource(source: DocumentationSource, progress?: vscode.Progress<{ message?: string }>): Promise<void> {
+    private async downloadAndParseSource(source: DocumentationSource, report?: (message: string) => void): Promise<void> {
         try {
-            console.log(`Downloading ${source.name} from ${source.url}...`);
-            progress?.report({ message: `Downloading ${source.name}...` });
-            vscode.window.showInformationMessage(`Downloading ${source.name} documentation...`);
-
-            if (!this.isValidUrl(source.url)) {
+            const localPath = this.getLocalPath(source.url);
+            if (!localPath && !this.isValidUrl(source.url)) {
                 throw new Error('Invalid URL format');
             }
 
-            const cachedSource = this.cache.get(source.name);
-            const headers: Record<string, string> = {
-                'User-Agent': 'JericoFX-Lua-Tools'
-            };
-
-            if (cachedSource?.etag) {
-                headers['If-None-Match'] = cachedSource.etag;
-            }
-
-            if (cachedSource?.lastModified) {
-                headers['If-Modified-Since'] = cachedSource.lastModified;
-            }
-
-            const response = await this.fetchWithRetries(source.url, {
-                method: 'GET',
-                headers,
-                signal: AbortSignal.timeout(30000)
-            }, source.name);
+            const action = localPath ? 'Loading' : 'Downloading';
+            console.log(`${action} ${source.name} from ${source.url}...`);
+            report?.(`${action} ${source.name}...`);
+            this.host.showMessage('info', `${action} ${source.name} documentation...`);
 
-            if (response.status === 304) {
-                console.log(`${source.name} not modified; using cached version.`);
-                progress?.report({ message: `${source.name} is up to date.` });
-                vscode.window.showInformationMessage(`${source.name} is up to date (not modified).`);
+            const fetched = localPath ? this.readLocalSource(localPath) : await this.fetchSource(source, report);
+            if (!fetched) {
                 return;
             }
 
-            if (!response.ok) {
-                throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+            const { content } = fetched;
+            const maxSize = source.type === 'natives_official' ? MAX_NATIVES_DATABASE_SIZE : MAX_SOURCE_SIZE;
+            if (content.length > maxSize) {
+                throw new Error(`File too large (max ${maxSize / (1024 * 1024)}MB)`);
             }
-
-            const content = await response.text();
             
-            if (content.length > 10 * 1024 * 1024) {
-                throw new Error('File too large (max 10MB)');
-            }
-            
-            console.log(`Downloaded ${source.name}, content length: ${content.length} chars`);
+            console.log(`Loaded ${source.name}, content length: ${content.length} chars`);
             console.log('First 200 chars:', content.substring(0, 200));
             
             let functions: Map<string, FunctionDoc>;
+            let names: string[] | undefined;
 
             switch (source.type) {
                 case 'lua_types':
@@ -129,6 +142,19 @@ export class DocumentationManager {
                     console.log(`Parsing ${source.name} as natives...`);
                     functions = DocumentationParser.parseNatives(content, source.name);
                     break;
+                case 'natives_official':
+                    console.log(`Parsing ${source.name} as the official natives database...`);
+                    functions = DocumentationParser.parseOfficialNatives(content, source.name);
+                    break;
+                case 'natives_cfxlua':
+                    console.log(`Parsing ${source.name} as CfxLua natives...`);
+                    functions = DocumentationParser.parseCfxLuaNatives(content, source.name);
+                    break;
+                case 'hash_names':
+                    console.log(`Parsing ${source.name} as a hash name list...`);
+                    functions = new Map();
+                    names = DocumentationParser.parseHashNames(content, source.name);
+                    break;
                 default:
                     console.log(`Unknown type ${source.type} for ${source.name}`);
                     functions = new Map();
@@ -142,19 +168,75 @@ export class DocumentationManager {
 
             this.cache.set(source.name, {
                 functions,
+                names,
                 lastUpdate: new Date(),
                 source: source.name,
-                etag: response.headers.get('etag') || undefined,
-                lastModified: response.headers.get('last-modified') || undefined
+                etag: fetched.etag,
+                lastModified: fetched.lastModified
             });
 
-            vscode.window.showInformationMessage(`${source.name} documentation updated successfully! Found ${functions.size} functions.`);
+            const found = names ? `${names.length} names` : `${functions.size} functions`;
+            this.host.showMessage('info', `${source.name} documentation updated successfully! Found ${found}.`);
 
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : 'Unknown error';
             console.error(`Failed to update ${source.name}:`, error);
-            vscode.window.showErrorMessage(`Failed to update ${source.name} documentation: ${errorMessage}`);
+            this.host.showMessage('error', `Failed to update ${source.name} documentation: ${errorMessage}`);
+        }
+    }
+
+    /** Downloads a source; undefined when the server reports the cached copy as current. */
+    private async fetchSource(source: DocumentationSource, report?: (message: string) => void): Promise<FetchedSource | undefined> {
+        const cachedSource = this.cache.get(source.name);
+        const headers: Record<string, string> = {
+            'User-Agent': 'JericoFX-Lua-Tools'
+        };
+
+        if (cachedSource?.etag) {
+            headers['If-None-Match'] = cachedSource.etag;
+        }
+
+        if (cachedSource?.lastModified) {
+            headers['If-Modified-Since'] = cachedSource.lastModified;
+        }
+
+        const response = await this.fetchWithRetries(source.url, {
+            method: 'GET',
+            headers,
+            signal: AbortSignal.timeout(30000)
+        }, source.name);
+
+        if (response.status === 304) {
+            console.log(`${source.name} not modified; using cached version.`);
+            report?.(`${source.name} is up to date.`);
+            this.host.showMessage('info', `${source.name} is up to date (not modified).`);
+            return undefined;
+        }
+
+        if (!response.ok) {
+            throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        }
+
+        return {
+            content: await response.text(),
+            etag: response.headers.get('etag') || undefined,
+            lastModified: response.headers.get('last-modified') || undefined
+        };
+    }
+
+    private readLocalSource(localPath: string): FetchedSource {
+        if (!fs.existsSync(localPath)) {
+            throw new Error(`File not found: ${localPath}`);
+        }
+        return { content: fs.readFileSync(localPath, 'utf8') };
+    }
+
+    /** Path of a source given as `file://` URL or absolute path, e.g. a local copy of `natives.json`. */
+    private getLocalPath(url: string): string | undefined {
+        if (url.startsWith('file://')) {
+            return fileURLToPath(url);
         }
+        return path.isAbsolute(url) ? url : undefined;
     }
 
     private isValidUrl(url: string): boolean {
@@ -234,9 +316,58 @@ export class DocumentationManager {
         return new Promise(resolve => setTimeout(resolve, ms));
     }
 
-    getFunctionDocumentation(functionName: string): FunctionDoc | undefined {
+    /**
+     * Collects the documentation sources declared in project config files and
+     * downloads the ones that are not cached yet.
+     */
+    async syncProjectSources(saveCache = true): Promise<void> {
+        const settingsSources = this.host.getSettings().documentationSources.map(source => source.name);
+        const configFiles = await this.host.findFiles(PROJECT_CONFIG_FILES);
+
+        const sources = new Map<string, DocumentationSource>();
+        for (const configFile of configFiles) {
+            // Resolving a file next to the config yields every source it inherits.
+            const resolved = this.resolveProjectConfig(path.join(path.dirname(configFile), '_.lua'));
+            resolved.documentationSources
+                .filter(source => !settingsSources.includes(source.name))
+                .forEach(source => sources.set(source.name, source));
+        }
+        this.projectSourceNames = new Set(sources.keys());
+
+        const missing = Array.from(sources.values()).filter(source => source.enabled && !this.cache.has(source.name));
+        await Promise.all(missing.map(source => this.runWithSemaphore(() => this.downloadAndParseSource(source))));
+
+        if (saveCache && missing.length > 0) {
+            this.saveCacheToFile();
+        }
+    }
+
+    /** Names of the cached sources that apply to `filePath`; every source when no path is given. */
+    private getVisibleSources(filePath?: string): Set<string> {
+        const visible = new Set<string>();
+        const projectSources = filePath && this.projectSourceNames.size > 0
+            ? this.resolveProjectConfig(filePath).documentationSources
+            : [];
+
+        for (const sourceName of this.cache.keys()) {
+            if (
+                !filePath ||
+                !this.projectSourceNames.has(sourceName) ||
+                projectSources.some(source => source.name === sourceName && source.enabled)
+            ) {
+                visible.add(sourceName);
+            }
+        }
+        return visible;
+    }
+
+    getFunctionDocumentation(functionName: string, filePath?: string): FunctionDoc | undefined {
         console.log(`Looking for function: ${functionName}`);
+        const visibleSources = this.getVisibleSources(filePath);
         for (const [sourceName, cache] of this.cache) {
+            if (!visibleSources.has(sourceName)) {
+                continue;
+            }
             const func = cache.functions.get(functionName);
             if (func) {
                 console.log(`Found ${functionName} in ${sourceName}`);
@@ -247,32 +378,145 @@ export class DocumentationManager {
         return undefined;
     }
 
-    getAllFunctions(): FunctionDoc[] {
+    /** Documentation of `functionName` from every source that applies to `filePath`, in source order. */
+    getFunctionDocumentationFromAllSources(functionName: string, filePath?: string): FunctionDoc[] {
+        const visibleSources = this.getVisibleSources(filePath);
+        const docs: FunctionDoc[] = [];
+        for (const [sourceName, cache] of this.cache) {
+            const func = visibleSources.has(sourceName) ? cache.functions.get(functionName) : undefined;
+            if (func) {
+                docs.push(func);
+            }
+        }
+        return docs;
+    }
+
+    getAllFunctions(filePath?: string): FunctionDoc[] {
         const allFunctions: FunctionDoc[] = [];
-        for (const cache of this.cache.values()) {
-            allFunctions.push(...cache.functions.values());
+        const visibleSources = this.getVisibleSources(filePath);
+        for (const [sourceName, cache] of this.cache) {
+            if (visibleSources.has(sourceName)) {
+                allFunctions.push(...cache.functions.values());
+            }
         }
         console.log(`Total functions available: ${allFunctions.length}`);
         return allFunctions;
     }
 
+    /**
+     * The native with a normalized hash (see `normalizeNativeHash`) from the
+     * sources that apply to `filePath`.
+     */
+    getNativeByHash(hash: string, filePath?: string): FunctionDoc | undefined {
+        const visibleSources = this.getVisibleSources(filePath);
+        for (const [sourceName, cache] of this.cache) {
+            const native = visibleSources.has(sourceName) ? this.getHashIndex(cache).get(hash) : undefined;
+            if (native) {
+                return native;
+            }
+        }
+        return undefined;
+    }
+
+    /** Whether a source that applies to `filePath` records native hashes, so an unknown hash means something. */
+    hasNativeHashes(filePath?: string): boolean {
+        const visibleSources = this.getVisibleSources(filePath);
+        return Array.from(this.cache).some(([sourceName, cache]) =>
+            visibleSources.has(sourceName) && this.getHashIndex(cache).size > 0
+        );
+    }
+
+    /** Whether a source that applies to `filePath` has game natives, whose hashes CFX-only sources lack. */
+    hasGameNativeHashes(filePath?: string): boolean {
+        const visibleSources = this.getVisibleSources(filePath);
+        return Array.from(this.cache).some(([sourceName, cache]) =>
+            visibleSources.has(sourceName) && Array.from(this.getHashIndex(cache).keys()).some(isGameNativeHash)
+        );
+    }
+
+    /** Names from the `hash_names` sources that apply to `filePath` whose joaat hash is `hash`, with their source. */
+    reverseLookupHash(hash: number, filePath?: string): Array<{ name: string; source: string }> {
+        const visibleSources = this.getVisibleSources(filePath);
+        const matches: Array<{ name: string; source: string }> = [];
+        for (const [sourceName, cache] of this.cache) {
+            if (!visibleSources.has(sourceName) || !cache.names) {
+                continue;
+            }
+            let index = this.nameIndexes.get(cache);
+            if (!index) {
+                index = new Map();
+                for (const name of cache.names) {
+                    const nameHash = joaat(name);
+                    index.set(nameHash, [...(index.get(nameHash) ?? []), name]);
+                }
+                this.nameIndexes.set(cache, index);
+            }
+            matches.push(...(index.get(hash) ?? []).map(name => ({ name, source: sourceName })));
+        }
+        return matches;
+    }
+
+    // Indexed on first use; a refreshed source is a new cache object and gets a new index.
+    private getHashIndex(cache: DocumentationCache): Map<string, FunctionDoc> {
+        let index = this.hashIndexes.get(cache);
+        if (!index) {
+            index = indexNativeHashes(cache.functions.values());
+            this.hashIndexes.set(cache, index);
+        }
+        return index;
+    }
+
+    /**
+     * Root names of every documented function (`lib` for `lib.callback`),
+     * used to tell intentional globals apart from accidental ones.
+     */
+    getKnownGlobals(filePath?: string): Set<string> {
+        const visibleSources = this.getVisibleSources(filePath);
+        return getDocumentedGlobals(
+            Array.from(this.cache.entries())
+                .filter(([sourceName]) => visibleSources.has(sourceName))
+                .map(([, cache]) => cache)
+        );
+    }
+
+    /**
+     * Writes the cached documentation as LuaLS `---@meta` files into
+     * `directory`, replacing files generated before and leaving any other
+     * file alone. Returns the number of files written.
+     */
+    writeLuaLsDefinitions(directory: string): number {
+        const files = generateLuaLsDefinitions(this.cache);
+        fs.mkdirSync(directory, { recursive: true });
+
+        for (const fileName of fs.readdirSync(directory)) {
+            const filePath = path.join(directory, fileName);
+            if (fileName.endsWith('.lua') && !files.has(fileName) && this.isGeneratedDefinition(filePath)) {
+                fs.unlinkSync(filePath);
+            }
+        }
+        let written = 0;
+        for (const [fileName, content] of files) {
+            const filePath = path.join(directory, fileName);
+            if (fs.existsSync(filePath) && !this.isGeneratedDefinition(filePath)) {
+                console.warn(`Not overwriting ${filePath}: it was not generated by JericoFX Lua Tools.`);
+                continue;
+            }
+            fs.writeFileSync(filePath, content);
+            written++;
+        }
+
+        console.log(`Wrote ${written} LuaLS definition files to ${directory}`);
+        return written;
+    }
+
+    private isGeneratedDefinition(filePath: string): boolean {
+        return fs.readFileSync(filePath, 'utf8').split('\n', 2)[1]?.trim() === LUALS_META_MARKER;
+    }
+
     private saveCacheToFile(): void {
         try {
-            const cacheData = Object.fromEntries(
-                Array.from(this.cache.entries()).map(([key, value]) => [
-                    key,
-                    {
-                        functions: Object.fromEntries(value.functions),
-                        lastUpdate: value.lastUpdate.toISOString(),
-                        source: value.source,
-                        etag: value.etag,
-                        lastModified: value.lastModified
-                    }
-                ])
-            );
-
-            const cacheFile = path.join(this.cacheDir, 'documentation.json');
-            fs.writeFileSync(cacheFile, JSON.stringify(cacheData, null, 2));
+            const cacheFile = path.join(this.cacheDir, DOCUMENTATION_CACHE_FILE);
+            writeDocumentationCache(cacheFile, this.cache);
             console.log(`Cache saved to ${cacheFile}`);
         } catch (error) {
             console.error('Failed to save documentation cache:', error);
@@ -281,21 +525,9 @@ export class DocumentationManager {
 
     private loadCachedDocumentation(): void {
         try {
-            const cacheFile = path.join(this.cacheDir, 'documentation.json');
+            const cacheFile = path.join(this.cacheDir, DOCUMENTATION_CACHE_FILE);
             if (fs.existsSync(cacheFile)) {
-                const content = fs.readFileSync(cacheFile, 'utf8');
-                const cacheData = JSON.parse(content);
-
-                for (const [sourceName, data] of Object.entries(cacheData)) {
-                    const functions = new Map(Object.entries((data as any).functions));
-                    this.cache.set(sourceName, {
-                        functions: functions as Map<string, FunctionDoc>,
-                        lastUpdate: new Date((data as any).lastUpdate),
-                        source: (data as any).source,
-                        etag: (data as any).etag,
-                        lastModified: (data as any).lastModified
-                    });
-                }
+                this.cache = readDocumentationCache(cacheFile);
                 console.log(`Loaded ${this.cache.size} sources from cache`);
             } else {
                 console.log('No cache file found, starting fresh');
@@ -305,51 +537,14 @@ export class DocumentationManager {
         }
     }
 
-    async addDocumentationSource(): Promise<void> {
-        const name = await vscode.window.showInputBox({
-            prompt: 'Enter a name for this documentation source',
-            placeHolder: 'e.g., my-custom-lib'
-        });
-
-        if (!name) return;
-
-        const url = await vscode.window.showInputBox({
-            prompt: 'Enter the URL to the documentation file',
-            placeHolder: 'https://raw.githubusercontent.com/...'
-        });
-
-        if (!url) return;
-
-        const type = await vscode.window.showQuickPick([
-            { label: 'Lua Types', value: 'lua_types' },
-            { label: 'Lua Functions', value: 'lua_functions' },
-            { label: 'Natives', value: 'natives' }
-        ], {
-            placeHolder: 'Select the documentation type'
-        });
-
-        if (!type) return;
-
-        const config = vscode.workspace.getConfiguration('jericofxLuaTools');
-        const sources = config.get<DocumentationSource[]>('documentationSources', []);
-
-        const newSource: DocumentationSource = {
-            name,
-            url,
-            type: type.value as any,
-            enabled: true
-        };
-
-        sources.push(newSource);
-        await config.update('documentationSources', sources, vscode.ConfigurationTarget.Global);
-
-        await this.downloadAndParseSource(newSource);
+    /** Downloads a source that was just added to the settings. */
+    async addDocumentationSource(source: DocumentationSource): Promise<void> {
+        await this.downloadAndParseSource(source);
         this.saveCacheToFile();
     }
 
     private async loadLocalTypesFiles(): Promise<void> {
-        const config = vscode.workspace.getConfiguration('jericofxLuaTools');
-        const autoLoadEnabled = config.get<boolean>('autoLoadLocalTypes', true);
+        const autoLoadEnabled = this.host.getSettings().autoLoadLocalTypes;
         
         if (!autoLoadEnabled) {
             console.log('Auto-loading of local types.lua files is disabled');
@@ -358,7 +553,7 @@ export class DocumentationManager {
         
         try {
             console.log('Scanning for local types.lua files...');
-            const typesFiles = await vscode.workspace.findFiles('**/types.lua', '**/node_modules/**');
+            const typesFiles = await this.host.findFiles(['types.lua']);
             
             if (typesFiles.length === 0) {
                 console.log('No local types.lua files found');
@@ -367,11 +562,10 @@ export class DocumentationManager {
 
             console.log(`Found ${typesFiles.length} local types.lua file(s)`);
             
-            for (const fileUri of typesFiles) {
+            for (const filePath of typesFiles) {
                 try {
-                    const document = await vscode.workspace.openTextDocument(fileUri);
-                    const content = document.getText();
-                    const relativePath = vscode.workspace.asRelativePath(fileUri);
+                    const content = await fs.promises.readFile(filePath, 'utf8');
+                    const relativePath = this.host.asRelativePath(filePath);
                     const sourceName = `Local: ${relativePath}`;
                     
                     console.log(`Processing local types file: ${sourceName}`);
@@ -387,13 +581,13 @@ export class DocumentationManager {
                         });
                         
                         console.log(`Loaded ${functions.size} functions from ${sourceName}`);
-                        vscode.window.showInformationMessage(`Auto-loaded ${functions.size} functions from ${relativePath}`);
+                        this.host.showMessage('info', `Auto-loaded ${functions.size} functions from ${relativePath}`);
                     } else {
                         console.log(`No functions found in ${sourceName}`);
                     }
                     
                 } catch (error) {
-                    console.error(`Failed to process ${fileUri.fsPath}:`, error);
+                    console.error(`Failed to process ${filePath}:`, error);
                 }
             }
             
@@ -405,25 +599,13 @@ export class DocumentationManager {
     async clearDocumentationCache(): Promise<void> {
         try {
             console.log('Clearing documentation cache...');
-            
-            // Show confirmation dialog
-            const answer = await vscode.window.showWarningMessage(
-                'This will clear all cached documentation and require re-downloading. Continue?',
-                'Yes, Clear Cache',
-                'Cancel'
-            );
-            
-            if (answer !== 'Yes, Clear Cache') {
-                console.log('Cache clear cancelled by user');
-                return;
-            }
-            
+
             // Clear in-memory cache
             this.cache.clear();
             console.log('In-memory cache cleared');
             
             // Delete cache file if it exists
-            const cacheFile = path.join(this.cacheDir, 'documentation.json');
+            const cacheFile = path.join(this.cacheDir, DOCUMENTATION_CACHE_FILE);
             if (fs.existsSync(cacheFile)) {
                 fs.unlinkSync(cacheFile);
                 console.log('Cache file deleted:', cacheFile);
@@ -438,13 +620,13 @@ export class DocumentationManager {
             // Recreate cache directory
             this.ensureCacheDir();
             
-            vscode.window.showInformationMessage('Documentation cache cleared successfully! Use "Refresh Documentation" to reload.');
+            this.host.showMessage('info', 'Documentation cache cleared successfully! Use "Refresh Documentation" to reload.');
             console.log('Documentation cache cleared successfully');
             
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : 'Unknown error';
             console.error('Failed to clear documentation cache:', error);
-            vscode.window.showErrorMessage(`Failed to clear cache: ${errorMessage}`);
+            this.host.showMessage('error', `Failed to clear cache: ${errorMessage}`);
         }
     }
 } 
\ No newline at end of file
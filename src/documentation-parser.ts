@@ -1,4 +1,6 @@
-import { FunctionDoc, ParameterDoc, ReturnDoc } from './documentation-types';
+import { FunctionDoc, FunctionSignature, ParameterDoc, ReturnDoc } from './documentation-types';
+
+type DeprecationDoc = Pick<FunctionDoc, 'deprecated' | 'deprecationNote' | 'replacement'>;
 
 export class DocumentationParser {
     
@@ -24,6 +26,7 @@ export class DocumentationParser {
             }
             
             // Buscar declaraciones de función
+            const documented = inComment;
             const functionMatches = [
                 line.match(/^function\s+([a-zA-Z_][a-zA-Z0-9_\.]*)\s*\((.*?)\)/),
                 line.match(/^([a-zA-Z_][a-zA-Z0-9_\.]*)\s*=\s*function\s*\((.*?)\)/),
@@ -45,7 +48,9 @@ export class DocumentationParser {
                         parameters: this.parseParameters(params, commentLines),
                         description: this.extractDescription(commentLines),
                         examples: this.extractExamples(commentLines),
-                        returns: this.extractReturns(commentLines)
+                        returns: this.extractReturns(commentLines),
+                        overloads: this.extractOverloads(commentLines),
+                        ...this.extractDeprecation(commentLines)
                     };
                     
                     functions.set(functionName, currentFunction as FunctionDoc);
@@ -56,8 +61,8 @@ export class DocumentationParser {
                 }
             }
             
-            // También buscar funciones sin comentarios previos
-            if (!inComment) {
+            // También buscar funciones sin comentarios previos; las documentadas ya se guardaron arriba
+            if (!documented) {
                 const simpleMatch = line.match(/^function\s+([a-zA-Z_][a-zA-Z0-9_\.]*)\s*\((.*?)\)/);
                 if (simpleMatch) {
                     const functionName = simpleMatch[1];
@@ -173,7 +178,9 @@ export class DocumentationParser {
                         parameters: this.parseParameters(params, currentComment),
                         description: inComment ? this.extractDescription(currentComment) : `Function from ${sourceName}`,
                         examples: inComment ? this.extractExamples(currentComment) : [],
-                        returns: inComment ? this.extractReturns(currentComment) : []
+                        returns: inComment ? this.extractReturns(currentComment) : [],
+                        overloads: this.extractOverloads(currentComment),
+                        ...this.extractDeprecation(currentComment)
                     };
                     
                     functions.set(functionName, func);
@@ -196,6 +203,19 @@ export class DocumentationParser {
         return functions;
     }
 
+    /** Documenta una función a partir de su lista de parámetros y de los comentarios `---` que la preceden, sin los guiones. */
+    static parseAnnotatedFunction(name: string, paramString: string, commentLines: string[], sourceName: string): FunctionDoc {
+        return {
+            name,
+            source: sourceName,
+            parameters: this.parseParameters(paramString, commentLines),
+            description: commentLines.length > 0 ? this.extractDescription(commentLines) : undefined,
+            returns: this.extractReturns(commentLines),
+            overloads: this.extractOverloads(commentLines),
+            ...this.extractDeprecation(commentLines)
+        };
+    }
+
     private static parseParameters(paramString: string, commentLines: string[]): ParameterDoc[] {
         if (!paramString.trim()) return [];
         
@@ -212,7 +232,7 @@ export class DocumentationParser {
             
             return {
                 name,
-                optional,
+                optional: optional || !!annotation?.optional,
                 type: annotation?.type || 'any',
                 description: annotation?.description
             };
@@ -223,13 +243,14 @@ export class DocumentationParser {
         const params: ParameterDoc[] = [];
         
         for (const line of commentLines) {
-            const paramMatch = line.match(/@param\s+(\w+)\s+(\w+)\s*(.*)/);
+            // `---@param name? type descripción`; el tipo puede ser una unión como `number|string`.
+            const paramMatch = line.match(/@param\s+(\w+|\.\.\.)(\?)?\s+(\S+)\s*(.*)/);
             if (paramMatch) {
                 params.push({
                     name: paramMatch[1],
-                    type: paramMatch[2],
-                    description: paramMatch[3]?.trim(),
-                    optional: false
+                    type: paramMatch[3].replace(/\?$/, ''),
+                    description: paramMatch[4]?.trim(),
+                    optional: !!paramMatch[2] || paramMatch[3].endsWith('?')
                 });
             }
         }
@@ -253,6 +274,82 @@ export class DocumentationParser {
         return returns;
     }
 
+    /** Lee `---@deprecated [nota]`; la función sugerida sale de textos como "Use `PlayerPedId`" o "Use PlayerPedId instead". */
+    private static extractDeprecation(commentLines: string[]): DeprecationDoc {
+        const line = commentLines.find(commentLine => /^@deprecated\b/.test(commentLine));
+        if (line === undefined) return {};
+        return this.createDeprecation(line.replace(/^@deprecated\s*/, '') || undefined);
+    }
+
+    private static createDeprecation(note?: string, replacement?: string): DeprecationDoc {
+        const match = note?.match(/\buse\s+`([A-Za-z_][\w.]*)(?:\(\))?`|\buse\s+([A-Za-z_][\w.]*)(?:\(\))?\s+instead\b/i);
+        const suggested = match?.[1] ?? match?.[2];
+        return { deprecated: true, deprecationNote: note, replacement: replacement ?? suggested };
+    }
+
+    /** Lee las variantes `---@overload fun(a: number, b?: string): boolean`; devuelve undefined si no hay ninguna. */
+    private static extractOverloads(commentLines: string[]): FunctionSignature[] | undefined {
+        const overloads: FunctionSignature[] = [];
+
+        for (const line of commentLines) {
+            const overloadMatch = line.match(/^@overload\s+fun\s*\((.*)$/);
+            if (!overloadMatch) continue;
+
+            const rest = overloadMatch[1];
+            const close = this.findClosingParen(rest);
+            if (close < 0) continue;
+
+            const parameters = this.splitTopLevel(rest.slice(0, close)).map((param): ParameterDoc => {
+                const [rawName, ...typeParts] = param.split(':');
+                const type = typeParts.join(':').trim();
+                const name = rawName.trim();
+                return {
+                    name: name.replace(/\?$/, ''),
+                    type: type.replace(/\?$/, '') || 'any',
+                    optional: name.endsWith('?') || type.endsWith('?')
+                };
+            });
+            const returnList = rest.slice(close + 1).replace(/^\s*:/, '').trim();
+            const returns = returnList ? this.splitTopLevel(returnList).map((type): ReturnDoc => ({ type })) : [];
+
+            overloads.push({ parameters, returns });
+        }
+
+        return overloads.length > 0 ? overloads : undefined;
+    }
+
+    // Posición del `)` que cierra la lista; `text` empieza justo después del `(`.
+    private static findClosingParen(text: string): number {
+        let depth = 0;
+        for (let i = 0; i < text.length; i++) {
+            if ('(<{['.includes(text[i])) depth++;
+            else if (')>}]'.includes(text[i])) {
+                if (depth === 0) return text[i] === ')' ? i : -1;
+                depth--;
+            }
+        }
+        return -1;
+    }
+
+    // Separa por comas que no están dentro de `fun(...)`, `table<...>` o `{...}`.
+    private static splitTopLevel(text: string): string[] {
+        const parts: string[] = [];
+        let depth = 0;
+        let current = '';
+        for (const char of text) {
+            if ('(<{['.includes(char)) depth++;
+            else if (')>}]'.includes(char)) depth--;
+            if (char === ',' && depth === 0) {
+                parts.push(current.trim());
+                current = '';
+            } else {
+                current += char;
+            }
+        }
+        if (current.trim()) parts.push(current.trim());
+        return parts.filter(part => part.length > 0);
+    }
+
     private static extractDescription(commentLines: string[]): string {
         const descLines = commentLines.filter(line => 
             !line.startsWith('@') && 
@@ -358,8 +455,18 @@ export class DocumentationParser {
                         examples: native.examples || []
                     };
                     
-                    if (native.side) {
-                        func.description += ` (Side: ${native.side})`;
+                    // `deprecated` puede ser `true` o un texto que explica qué usar en su lugar.
+                    if (native.deprecated) {
+                        Object.assign(func, this.createDeprecation(
+                            typeof native.deprecated === 'string' ? native.deprecated : undefined,
+                            typeof native.replacement === 'string' ? native.replacement : undefined
+                        ));
+                    }
+                    
+                    // El JSON oficial de natives lo llama `apiset`.
+                    const side = String(native.side ?? native.apiset ?? '').toLowerCase();
+                    if (side === 'client' || side === 'server' || side === 'shared') {
+                        func.side = side;
                     }
                     
                     functions.set(functionName, func);
@@ -378,4 +485,173 @@ export class DocumentationParser {
         console.log(`Parsed ${functions.size} natives from ${sourceName}`);
         return functions;
     }
+
+    /**
+     * Importa el volcado oficial de natives (`natives.json`, `natives_cfx.json`):
+     * `{ NAMESPACE: { "0xHASH": { name, params, results, apiset, game, ... } } }`.
+     * Los nombres se convierten a los que expone el runtime de Lua, p. ej.
+     * `GET_PLAYER_PED` pasa a `GetPlayerPed`.
+     */
+    static parseOfficialNatives(content: string, sourceName: string): Map<string, FunctionDoc> {
+        console.log(`Starting parseOfficialNatives for ${sourceName}`);
+        const functions = new Map<string, FunctionDoc>();
+
+        let namespaces: unknown;
+        try {
+            namespaces = JSON.parse(content);
+        } catch (error) {
+            console.error('Failed to parse official natives JSON:', error);
+            return functions;
+        }
+        if (typeof namespaces !== 'object' || namespaces === null) {
+            console.error('Invalid official natives format: root should be an object of namespaces');
+            return functions;
+        }
+
+        for (const [namespace, natives] of Object.entries(namespaces as Record<string, any>)) {
+            if (!natives || typeof natives !== 'object') continue;
+
+            for (const [hash, native] of Object.entries(natives as Record<string, any>)) {
+                if (!native || typeof native !== 'object' || typeof native.name !== 'string') {
+                    console.warn(`Skipping invalid native ${namespace}/${hash}`);
+                    continue;
+                }
+
+                const name = this.toLuaNativeName(native.name);
+                const parameters: ParameterDoc[] = (Array.isArray(native.params) ? native.params : [])
+                    .filter((param: any) => param && typeof param === 'object')
+                    .map((param: any): ParameterDoc => ({
+                        name: param.name || 'unknown',
+                        type: param.type || 'any',
+                        description: param.description || undefined
+                    }));
+                const resultType = typeof native.results === 'string' ? native.results : 'void';
+                const returns: ReturnDoc[] = resultType.toLowerCase() === 'void'
+                    ? []
+                    : [{ type: resultType, description: native.resultsDescription || undefined }];
+                const examples = (Array.isArray(native.examples) ? native.examples : [])
+                    .filter((example: any) => example?.lang === 'lua' && typeof example.code === 'string')
+                    .map((example: any) => example.code.trim());
+
+                // Solo los natives de CFX traen `apiset`; muchos natives del juego también se pueden llamar
+                // desde el servidor, así que sin `apiset` el lado queda sin definir.
+                const apiset = String(native.apiset ?? '').toLowerCase();
+
+                functions.set(name, {
+                    name,
+                    source: sourceName,
+                    description: this.cleanNativeDescription(native.description) || 'This native does not have an official description.',
+                    parameters,
+                    returns,
+                    examples,
+                    namespace: native.ns || namespace,
+                    hash: String(native.hash ?? hash),
+                    side: apiset === 'client' || apiset === 'server' || apiset === 'shared' ? apiset : undefined
+                });
+            }
+        }
+
+        console.log(`Parsed ${functions.size} official natives from ${sourceName}`);
+        return functions;
+    }
+
+    /**
+     * Importa los archivos de definiciones de natives para CfxLua, donde cada
+     * native lleva una cabecera como:
+     *
+     *     ---**`CFX` `server`**
+     *     ---[Native Documentation](https://docs.fivem.net/natives/?_0x6E31E993)
+     *     ---@param playerSrc string
+     *     ---@return string
+     *     function GetPlayerName(playerSrc) end
+     */
+    static parseCfxLuaNatives(content: string, sourceName: string): Map<string, FunctionDoc> {
+        console.log(`Starting parseCfxLuaNatives for ${sourceName}`);
+        const functions = new Map<string, FunctionDoc>();
+        let commentLines: string[] = [];
+
+        for (const rawLine of content.split('\n')) {
+            const line = rawLine.trim();
+
+            if (line.startsWith('---')) {
+                commentLines.push(line.substring(3).trim());
+                continue;
+            }
+
+            const functionMatch = line.match(/^function\s+([A-Za-z_]\w*)\s*\((.*?)\)/);
+            if (functionMatch) {
+                const header = commentLines.map(commentLine => commentLine.match(/^\*\*`(\w+)`(?:\s*`(\w+)`)?\*\*$/)).find(Boolean);
+                const hash = commentLines.map(commentLine => commentLine.match(/natives\/\?_(0x[0-9A-Fa-f]+)/)).find(Boolean);
+                // La cabecera y el enlace no forman parte de la descripción.
+                const annotations = commentLines.filter(commentLine =>
+                    !/^\*\*`\w+`/.test(commentLine) && !commentLine.startsWith('[Native Documentation]')
+                );
+
+                const func = this.parseAnnotatedFunction(functionMatch[1], functionMatch[2], annotations, sourceName);
+                func.namespace = header?.[1];
+                func.hash = hash?.[1];
+                const apiset = header?.[2]?.toLowerCase();
+                if (apiset === 'client' || apiset === 'server' || apiset === 'shared') {
+                    func.side = apiset;
+                }
+                functions.set(func.name, func);
+            }
+
+            commentLines = [];
+        }
+
+        console.log(`Parsed ${functions.size} CfxLua natives from ${sourceName}`);
+        return functions;
+    }
+
+    /**
+     * Lee una lista de nombres para búsquedas inversas de hashes: un array JSON
+     * de textos o de objetos con `name`/`Name` (como los volcados de vehículos
+     * y armas), un objeto JSON cuyas claves son los nombres, o un nombre por
+     * línea. En texto plano se ignoran las líneas que empiezan con `#` o `--`.
+     */
+    static parseHashNames(content: string, sourceName: string): string[] {
+        console.log(`Starting parseHashNames for ${sourceName}`);
+        let data: unknown;
+        try {
+            data = JSON.parse(content);
+        } catch {
+            data = undefined;
+        }
+
+        let names: unknown[];
+        if (Array.isArray(data)) {
+            names = data.map(entry => {
+                if (typeof entry !== 'object' || entry === null) {
+                    return entry;
+                }
+                const record = entry as Record<string, unknown>;
+                return record.name ?? record.Name;
+            });
+        } else if (typeof data === 'object' && data !== null) {
+            names = Object.keys(data);
+        } else {
+            names = content.split('\n').map(line => line.trim()).filter(line => !line.startsWith('#') && !line.startsWith('--'));
+        }
+
+        const unique = new Set(names.filter((name): name is string => typeof name === 'string' && name.length > 0));
+        console.log(`Parsed ${unique.size} names from ${sourceName}`);
+        return Array.from(unique);
+    }
+
+    // Mismo criterio que el runtime de Lua: `GET_GROUND_Z_FOR_3D_COORD` → `GetGroundZFor_3dCoord`, `_0xABCD` → `N_0xabcd`.
+    private static toLuaNativeName(name: string): string {
+        return name
+            .toLowerCase()
+            .replace(/0x/g, 'n_0x')
+            .replace(/_([a-z])/g, (_, letter: string) => letter.toUpperCase())
+            .replace(/^_+/, '')
+            .replace(/^[a-z]/, letter => letter.toUpperCase());
+    }
+
+    // Las descripciones oficiales suelen venir envueltas en un bloque ```.
+    private static cleanNativeDescription(description: unknown): string {
+        if (typeof description !== 'string') return '';
+        return description.trim().replace(/^```\s*\n?([\s\S]*?)\n?```$/, '$1').trim();
+    }
 } 
\ No newline at end of file
@@ -1,44 +1,73 @@
-import * as vscode from 'vscode';
+import {
+    CompletionItem,
+    CompletionItemKind,
+    CompletionItemTag,
+    CompletionList,
+    Hover,
+    InsertTextFormat,
+    MarkupKind,
+    ParameterInformation,
+    Position,
+    Range,
+    SignatureHelp,
+    SignatureInformation
+} from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { findCallAtOffset } from './call-context';
 import { DocumentationManager } from './documentation-manager';
+import { FunctionDoc, FunctionSignature, ParameterDoc } from './documentation-types';
+import { ExportDeclaration, parseExportCallee } from './exports';
+import { ScriptSide } from './fxmanifest';
 
-export class LuaCompletionProvider implements vscode.CompletionItemProvider {
+const IDENTIFIER = /[A-Za-z_][A-Za-z0-9_]*/g;
+
+/** Namespace y hash de un native, p. ej. **Native:** `PLAYER` · `0x43A66C31C68491C0`. */
+function formatNative(func: FunctionDoc): string {
+    return `**Native:** ${func.namespace ? `\`${func.namespace}\` · ` : ''}\`${func.hash}\``;
+}
+
+function formatReturns(func: FunctionDoc): string {
+    return (func.returns ?? [])
+        .map(ret => `\`${ret.type ?? 'any'}\`${ret.description ? ` - ${ret.description}` : ''}`)
+        .join(', ');
+}
+
+/** Si `func` solo existe en el lado contrario al del archivo, p. ej. un native de servidor en un script de cliente. */
+function isOnOtherSide(func: FunctionDoc, side: ScriptSide | undefined): boolean {
+    return (side === 'client' || side === 'server') && (func.side === 'client' || func.side === 'server') && func.side !== side;
+}
+
+export class LuaCompletionProvider {
     constructor(private documentationManager: DocumentationManager) {}
 
-    provideCompletionItems(
-        document: vscode.TextDocument,
-        position: vscode.Position,
-        token: vscode.CancellationToken,
-        context: vscode.CompletionContext
-    ): vscode.ProviderResult<vscode.CompletionItem[] | vscode.CompletionList> {
-        
-        const functions = this.documentationManager.getAllFunctions();
-        const completionItems: vscode.CompletionItem[] = [];
-
-        // Contexto de la línea actual para filtrado opcional
-        const lineText = document.lineAt(position.line).text;
-        const beforeCursor = lineText.substring(0, position.character);
-        
+    provideCompletionItems(document: TextDocument, position: Position, filePath: string, side?: ScriptSide): CompletionList {
+        const functions = this.documentationManager.getAllFunctions(filePath);
+        const completionItems: CompletionItem[] = [];
+
         for (const func of functions) {
-            const item = new vscode.CompletionItem(func.name, vscode.CompletionItemKind.Function);
-            
-            // Identificar que viene de documentación externa
-            item.detail = `📚 ${func.source}`;
-            item.documentation = new vscode.MarkdownString(this.formatDocumentation(func));
-            
-            // Prioridad neutral - ordenamiento alfabético por fuente
-            item.sortText = `${func.source}_${func.name}`;
-            
+            const otherSide = isOnOtherSide(func, side);
+            const item: CompletionItem = {
+                label: func.name,
+                kind: CompletionItemKind.Function,
+                // Identificar que viene de documentación externa
+                detail: `📚 ${func.source}`,
+                documentation: { kind: MarkupKind.Markdown, value: this.formatDocumentation(func) },
+                // Prioridad neutral - ordenamiento alfabético por fuente; las del otro lado van al final
+                sortText: `${otherSide ? '~' : ''}${func.source}_${func.name}`,
+                // Etiqueta clara con fuente
+                labelDetails: {
+                    detail: ` (${func.source})`,
+                    description: otherSide ? `${func.side} only` : undefined
+                },
+                tags: func.deprecated ? [CompletionItemTag.Deprecated] : undefined
+            };
+
             if (func.parameters && func.parameters.length > 0) {
-                item.insertText = new vscode.SnippetString(`${func.name}(${this.createSnippetParams(func.parameters)})`);
+                item.insertText = `${func.name}(${this.createSnippetParams(func.parameters)})`;
+                item.insertTextFormat = InsertTextFormat.Snippet;
             } else {
                 item.insertText = `${func.name}()`;
             }
-            
-            // Etiqueta clara con fuente
-            item.label = {
-                label: func.name,
-                detail: ` (${func.source})`
-            };
 
             completionItems.push(item);
         }
@@ -49,16 +78,42 @@ export class LuaCompletionProvider implements vscode.CompletionItemProvider {
         };
     }
 
-    private createSnippetParams(parameters: any[]): string {
-        return parameters.map((param, index) => {
-            const placeholder = param.optional ? `\${${index + 1}:${param.name}}` : `\${${index + 1}:${param.name}}`;
-            return placeholder;
-        }).join(', ');
+    /** Completa el nombre de un export después de `exports['recurso']:`. */
+    provideExportCompletionItems(exports: ExportDeclaration[]): CompletionList {
+        const items = exports.map((declaration): CompletionItem => {
+            const { doc } = declaration;
+            const parameters = doc.parameters ?? [];
+            return {
+                label: declaration.name,
+                kind: CompletionItemKind.Method,
+                detail: `exports['${declaration.resource}']`,
+                documentation: { kind: MarkupKind.Markdown, value: this.formatDocumentation(doc) },
+                labelDetails: { description: declaration.side },
+                insertText: `${declaration.name}(${this.createSnippetParams(parameters)})`,
+                insertTextFormat: InsertTextFormat.Snippet
+            };
+        });
+
+        return { items, isIncomplete: false };
     }
 
-    private formatDocumentation(func: any): string {
+    /** Completa el nombre del recurso dentro de `exports['`. */
+    provideResourceCompletionItems(resources: Iterable<string>): CompletionList {
+        const items = Array.from(resources, (resource): CompletionItem => ({
+            label: resource,
+            kind: CompletionItemKind.Module
+        }));
+
+        return { items, isIncomplete: false };
+    }
+
+    private createSnippetParams(parameters: ParameterDoc[]): string {
+        return parameters.map((param, index) => `\${${index + 1}:${param.name}}`).join(', ');
+    }
+
+    private formatDocumentation(func: FunctionDoc): string {
         let doc = '';
-        
+
         if (func.description) {
             doc += func.description + '\n\n';
         }
@@ -74,61 +129,179 @@ export class LuaCompletionProvider implements vscode.CompletionItemProvider {
             doc += '\n';
         }
 
+        if (func.returns && func.returns.length > 0) {
+            doc += `**Returns:** ${formatReturns(func)}\n\n`;
+        }
+
         if (func.examples && func.examples.length > 0) {
             doc += '**Example:**\n```lua\n' + func.examples[0] + '\n```\n';
         }
 
+        if (func.side) {
+            doc += `\n**Side:** ${func.side}\n`;
+        }
+
+        if (func.hash) {
+            doc += `\n${formatNative(func)}\n`;
+        }
+
         doc += `\n*📚 Source: ${func.source}*`;
-        
+
         return doc;
     }
 }
 
-export class LuaHoverProvider implements vscode.HoverProvider {
+export class LuaHoverProvider {
     constructor(private documentationManager: DocumentationManager) {}
 
-    provideHover(
-        document: vscode.TextDocument,
-        position: vscode.Position,
-        token: vscode.CancellationToken
-    ): vscode.ProviderResult<vscode.Hover> {
-        
-        const wordRange = document.getWordRangeAtPosition(position);
-        if (!wordRange) return;
-
-        const word = document.getText(wordRange);
-        const func = this.documentationManager.getFunctionDocumentation(word);
-        
+    provideHover(document: TextDocument, position: Position, filePath: string, side?: ScriptSide): Hover | undefined {
+        const lineText = document.getText({
+            start: { line: position.line, character: 0 },
+            end: { line: position.line + 1, character: 0 }
+        });
+        const wordMatch = Array.from(lineText.matchAll(IDENTIFIER)).find(match =>
+            match.index! <= position.character && position.character <= match.index! + match[0].length
+        );
+        if (!wordMatch) return;
+
+        const word = wordMatch[0];
+        const func = this.documentationManager.getFunctionDocumentation(word, filePath);
+
         // Si no encontramos la función, no interferir con otros providers
         if (!func) return;
 
-        const markdown = new vscode.MarkdownString();
-        
+        return this.provideFunctionHover(func, {
+            start: { line: position.line, character: wordMatch.index! },
+            end: { line: position.line, character: wordMatch.index! + word.length }
+        }, side);
+    }
+
+    /** Hover de una función ya resuelta, p. ej. el native al que apunta un hash de `Citizen.InvokeNative`. */
+    provideFunctionHover(func: FunctionDoc, range: Range, side?: ScriptSide): Hover {
         // Encabezado neutral
-        markdown.appendMarkdown(`**📚 ${func.source} Documentation**\n\n`);
-        markdown.appendCodeblock(`function ${func.name}`, 'lua');
-        
+        let markdown = `**📚 ${func.source} Documentation**\n\n`;
+        markdown += '```lua\nfunction ' + func.name + '\n```\n';
+
+        if (func.side) {
+            markdown += isOnOtherSide(func, side)
+                ? `\n⚠️ **${func.side} only**: not available in this ${side} script.\n`
+                : `\n**Side:** ${func.side}\n`;
+        }
+
+        if (func.hash) {
+            markdown += `\n${formatNative(func)}\n`;
+        }
+
+        if (func.deprecated) {
+            const advice = func.deprecationNote ?? (func.replacement ? `Use \`${func.replacement}\` instead.` : '');
+            markdown += `\n⚠️ **Deprecated**${advice ? `: ${advice}` : ''}\n`;
+        }
+
         if (func.description) {
-            markdown.appendMarkdown('\n' + func.description + '\n');
+            markdown += '\n' + func.description + '\n';
         }
 
         if (func.parameters && func.parameters.length > 0) {
-            markdown.appendMarkdown('\n**Parameters:**\n');
+            markdown += '\n**Parameters:**\n';
             for (const param of func.parameters) {
-                markdown.appendMarkdown(`- \`${param.name}\`${param.optional ? ' (optional)' : ''}`);
-                if (param.type) markdown.appendMarkdown(`: ${param.type}`);
-                if (param.description) markdown.appendMarkdown(` - ${param.description}`);
-                markdown.appendMarkdown('\n');
+                markdown += `- \`${param.name}\`${param.optional ? ' (optional)' : ''}`;
+                if (param.type) markdown += `: ${param.type}`;
+                if (param.description) markdown += ` - ${param.description}`;
+                markdown += '\n';
             }
         }
 
+        if (func.returns && func.returns.length > 0) {
+            markdown += `\n**Returns:** ${formatReturns(func)}\n`;
+        }
+
         if (func.examples && func.examples.length > 0) {
-            markdown.appendMarkdown('\n**Example:**\n');
-            markdown.appendCodeblock(func.examples[0], 'lua');
+            markdown += '\n**Example:**\n```lua\n' + func.examples[0] + '\n```\n';
         }
 
-        markdown.appendMarkdown(`\n---\n*From ${func.source} via JericoFX Lua Tools*`);
-        
-        return new vscode.Hover(markdown, wordRange);
+        markdown += `\n---\n*From ${func.source} via JericoFX Lua Tools*`;
+
+        return {
+            contents: { kind: MarkupKind.Markdown, value: markdown },
+            range
+        };
     }
-} 
\ No newline at end of file
+}
+
+export class LuaSignatureHelpProvider {
+    constructor(private documentationManager: DocumentationManager) {}
+
+    /**
+     * `lookupExport` resuelve llamadas como `exports['recurso']:Funcion(`; sin él no se muestran.
+     * `previousSignature` es la firma que el editor tenía activa, para no saltar entre variantes al escribir.
+     */
+    provideSignatureHelp(
+        document: TextDocument,
+        position: Position,
+        filePath: string,
+        lookupExport?: (resource: string, name: string) => FunctionDoc | undefined,
+        previousSignature?: number
+    ): SignatureHelp | undefined {
+        const call = findCallAtOffset(document.getText(), document.offsetAt(position));
+        if (!call) return;
+
+        const exportCall = parseExportCallee(call.callee);
+        // `player:GetName()` suele documentarse como `player.GetName`.
+        const func = exportCall
+            ? lookupExport?.(exportCall.resource, exportCall.name)
+            : this.documentationManager.getFunctionDocumentation(call.callee, filePath)
+                ?? this.documentationManager.getFunctionDocumentation(call.callee.replace(':', '.'), filePath);
+        if (!func) return;
+
+        // Una firma por variante `---@overload`, después de la declarada.
+        const variants: FunctionSignature[] = [
+            { parameters: func.parameters ?? [], returns: func.returns },
+            ...(func.overloads ?? [])
+        ];
+        const signatures = variants.map(variant => this.createSignature(func, variant, call.activeParameter));
+
+        // Se mantiene la firma elegida mientras admita el argumento actual; si no, la primera que lo admita.
+        const accepts = (index: number) => {
+            const parameters = variants[index].parameters;
+            return call.activeParameter < parameters.length || parameters[parameters.length - 1]?.name === '...';
+        };
+        const candidates = [previousSignature ?? 0, ...variants.keys()];
+        const activeSignature = candidates.find(index => index < variants.length && accepts(index)) ?? 0;
+
+        return {
+            signatures,
+            activeSignature,
+            activeParameter: signatures[activeSignature].activeParameter
+        };
+    }
+
+    private createSignature(func: FunctionDoc, variant: FunctionSignature, argumentIndex: number): SignatureInformation {
+        const parameters: ParameterInformation[] = [];
+        let label = `${func.name}(`;
+        variant.parameters.forEach((param, index) => {
+            if (index > 0) label += ', ';
+            const start = label.length;
+            label += `${param.name}${param.optional ? '?' : ''}${param.type ? `: ${param.type}` : ''}`;
+            parameters.push({ label: [start, label.length], documentation: param.description });
+        });
+        label += ')';
+
+        const returnTypes = (variant.returns ?? []).map(ret => ret.type).filter(type => type);
+        if (returnTypes.length > 0) {
+            label += `: ${returnTypes.join(', ')}`;
+        }
+
+        // Los argumentos de sobra de una función vararg se quedan en el parámetro `...`.
+        const lastIndex = parameters.length - 1;
+        const isVararg = variant.parameters[lastIndex]?.name === '...';
+
+        return {
+            label,
+            documentation: func.description
+                ? { kind: MarkupKind.Markdown, value: `${func.description}\n\n*📚 ${func.source}*` }
+                : undefined,
+            parameters,
+            activeParameter: isVararg ? Math.min(argumentIndex, lastIndex) : argumentIndex
+        };
+    }
+}
@@ -1,7 +1,9 @@
+import { ScriptSide } from './fxmanifest';
+
 export interface DocumentationSource {
     name: string;
     url: string;
-    type: 'lua_types' | 'lua_functions' | 'lua_mixed' | 'natives';
+    type: 'lua_types' | 'lua_functions' | 'lua_mixed' | 'natives' | 'natives_official' | 'natives_cfxlua' | 'hash_names';
     enabled: boolean;
     lastUpdated?: Date;
     cached?: boolean;
@@ -15,6 +17,24 @@ export interface FunctionDoc {
     examples?: string[];
     source: string;
     deprecated?: boolean;
+    /** Text of the `---@deprecated` annotation or of the native's deprecation flag. */
+    deprecationNote?: string;
+    /** Function to call instead of a deprecated one, when the documentation names it. */
+    replacement?: string;
+    /** Side the function exists on, e.g. the `apiset` of a native; undefined when unknown. */
+    side?: ScriptSide;
+    /** Other ways to call the function, from `---@overload fun(...)` annotations. */
+    overloads?: FunctionSignature[];
+    /** Native namespace such as `PLAYER` or `CFX`. */
+    namespace?: string;
+    /** Native hash as written by the natives database, e.g. `0x43A66C31C68491C0`. */
+    hash?: string;
+}
+
+/** One `---@overload` variant of a function. */
+export interface FunctionSignature {
+    parameters: ParameterDoc[];
+    returns?: ReturnDoc[];
 }
 
 export interface ParameterDoc {
@@ -32,6 +52,8 @@ export interface ReturnDoc {
 
 export interface DocumentationCache {
     functions: Map<string, FunctionDoc>;
+    /** Model, weapon or other names from a `hash_names` source, for reverse hash lookups. */
+    names?: string[];
     lastUpdate: Date;
     source: string;
     etag?: string;
@@ -0,0 +1,204 @@
+import { DocumentationParser } from './documentation-parser';
+import { FunctionDoc } from './documentation-types';
+import { ScriptSide } from './fxmanifest';
+import {
+  CallExpression,
+  Chunk,
+  Comment,
+  Expression,
+  FunctionNode,
+  getStringArgument,
+  Identifier,
+  isFunctionNode,
+  SourceRange,
+  Statement,
+  walkAst,
+} from './lua-ast';
+import { ScopeAnalysis } from './lua-scope';
+
+/** A function a resource makes callable from other resources through `exports`. */
+export interface ExportDeclaration {
+  resource: string;
+  name: string;
+  /** Side of the file that declares it; exports are only callable on that side. */
+  side: ScriptSide | undefined;
+  /** Range of the export name in the declaration. */
+  range: SourceRange;
+  /** Parameters and annotations of the exported function. */
+  doc: FunctionDoc;
+  /** File that declares it, when it is not the analyzed document. */
+  filePath?: string;
+}
+
+/** A call such as `exports['ox_inventory']:AddItem(...)` or `exports.ox_inventory:AddItem(...)`. */
+export interface ExportCall {
+  resource: string;
+  name: string;
+  resourceRange: SourceRange;
+  nameRange: SourceRange;
+  call: CallExpression;
+}
+
+/**
+ * What is being typed before the cursor: an export name after
+ * `exports['res']:`, or a resource name inside `exports['`.
+ */
+export type ExportCompletionContext = { kind: 'export'; resource: string } | { kind: 'resource' };
+
+const EXPORT_PREFIX = /\bexports\s*(?:\[\s*(['"])([^'"\\]+)\1\s*\]|\.([A-Za-z_]\w*))\s*:\s*\w*$/;
+const RESOURCE_PREFIX = /\bexports\s*\[\s*['"][^'"\\]*$/;
+
+/**
+ * Collects the functions a file exports, in any of the forms FiveM accepts:
+ * `exports('Name', fn)`, `exports.Name = fn` and `function exports.Name()`.
+ * Their documentation comes from the `---` comments above the export or
+ * above the local function it names.
+ */
+export function collectExports(
+  ast: Chunk,
+  scopes: ScopeAnalysis | undefined,
+  resource: string,
+  side: ScriptSide | undefined
+): ExportDeclaration[] {
+  const exports: ExportDeclaration[] = [];
+  const docComments = getDocComments(ast.comments);
+
+  const add = (name: string, range: SourceRange, statement: Statement, value?: Expression | FunctionNode) => {
+    const func = resolveFunction(value, scopes);
+    const commentLines = (func && readDocComment(docComments, func)) ?? readDocComment(docComments, statement) ?? [];
+    const parameters = func ? func.parameters.map((parameter) => parameter.name) : [];
+    if (func?.isVararg) {
+      parameters.push('...');
+    }
+    exports.push({
+      resource,
+      name,
+      side,
+      range,
+      doc: DocumentationParser.parseAnnotatedFunction(name, parameters.join(', '), commentLines, resource),
+    });
+  };
+
+  walkAst(ast, {
+    enter(node) {
+      if (node.type === 'CallStatement') {
+        const call = node.expression;
+        const name = getStringArgument(call, 0);
+        if (name && call.base.type === 'Identifier' && call.base.name === 'exports') {
+          add(name.value, name.range, node, call.arguments[1]);
+        }
+      } else if (node.type === 'AssignmentStatement') {
+        node.targets.forEach((target, index) => {
+          const identifier = getExportsField(target);
+          if (identifier) {
+            add(identifier.name, identifier.range, node, node.init[index]);
+          }
+        });
+      } else if (node.type === 'FunctionDeclaration' && node.identifier.type === 'MemberExpression') {
+        const identifier = getExportsField(node.identifier);
+        if (identifier) {
+          add(identifier.name, identifier.range, node, node);
+        }
+      }
+    },
+  });
+
+  return exports;
+}
+
+/** Calls to exports of other resources, in source order. */
+export function findExportCalls(ast: Chunk): ExportCall[] {
+  const calls: ExportCall[] = [];
+
+  walkAst(ast, {
+    enter(node) {
+      if (node.type !== 'CallExpression' || node.base.type !== 'MemberExpression' || node.base.indexer !== ':') {
+        return;
+      }
+      const { base: target, identifier } = node.base;
+      if (
+        target.type === 'IndexExpression' &&
+        isExportsIdentifier(target.base) &&
+        target.index.type === 'StringLiteral'
+      ) {
+        calls.push({
+          resource: target.index.value,
+          name: identifier.name,
+          resourceRange: target.index.range,
+          nameRange: identifier.range,
+          call: node,
+        });
+      } else if (target.type === 'MemberExpression' && target.indexer === '.' && isExportsIdentifier(target.base)) {
+        calls.push({
+          resource: target.identifier.name,
+          name: identifier.name,
+          resourceRange: target.identifier.range,
+          nameRange: identifier.range,
+          call: node,
+        });
+      }
+    },
+  });
+
+  return calls;
+}
+
+/** Reads the export being typed from the text of the line up to the cursor. */
+export function getExportCompletionContext(linePrefix: string): ExportCompletionContext | undefined {
+  const exportMatch = EXPORT_PREFIX.exec(linePrefix);
+  if (exportMatch) {
+    return { kind: 'export', resource: exportMatch[2] ?? exportMatch[3] };
+  }
+  return RESOURCE_PREFIX.test(linePrefix) ? { kind: 'resource' } : undefined;
+}
+
+/** Matches an export call to `name` in `resource`, e.g. `exports.ox_inventory:AddItem`. */
+export function parseExportCallee(callee: string): { resource: string; name: string } | undefined {
+  const match = /^exports\.(.+):([A-Za-z_]\w*)$/.exec(callee);
+  return match ? { resource: match[1], name: match[2] } : undefined;
+}
+
+/** `exports.Name` as an assignment target or function name; `exports.res.Name` reads another resource. */
+function getExportsField(expression: Expression): Identifier | undefined {
+  return expression.type === 'MemberExpression' && expression.indexer === '.' && isExportsIdentifier(expression.base)
+    ? expression.identifier
+    : undefined;
+}
+
+function isExportsIdentifier(expression: Expression): boolean {
+  return expression.type === 'Identifier' && expression.name === 'exports';
+}
+
+function resolveFunction(
+  expression: Expression | FunctionNode | undefined,
+  scopes: ScopeAnalysis | undefined
+): FunctionNode | undefined {
+  if (expression && isFunctionNode(expression)) {
+    return expression;
+  }
+  if (expression?.type === 'Identifier') {
+    const value = scopes?.getReference(expression)?.binding?.value;
+    return value && isFunctionNode(value) ? value : undefined;
+  }
+  return undefined;
+}
+
+/** `---` line comments by the line they are on. */
+function getDocComments(comments: Comment[]): Map<number, Comment> {
+  const byLine = new Map<number, Comment>();
+  for (const comment of comments) {
+    if (!comment.long && comment.raw.startsWith('---')) {
+      byLine.set(comment.range.start.line, comment);
+    }
+  }
+  return byLine;
+}
+
+/** The block of `---` comments that ends on the line above `node`, without the dashes. */
+function readDocComment(docComments: Map<number, Comment>, node: { range: SourceRange }): string[] | undefined {
+  const lines: string[] = [];
+  for (let line = node.range.start.line - 1; docComments.has(line); line--) {
+    lines.unshift(docComments.get(line)!.raw.slice(3).trim());
+  }
+  return lines.length > 0 ? lines : undefined;
+}
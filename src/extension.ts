@@ -1,1004 +1,295 @@
+import * as fs from 'fs';
+import * as path from 'path';
 import * as vscode from 'vscode';
-import { DocumentationManager } from './documentation-manager';
 import {
-  LuaCompletionProvider,
-  LuaHoverProvider,
-} from './documentation-providers';
-
-class LuaCodeActionProvider implements vscode.CodeActionProvider {
-  provideCodeActions(
-    document: vscode.TextDocument,
-    _range: vscode.Range,
-    context: vscode.CodeActionContext
-  ): vscode.CodeAction[] {
-    const actions: vscode.CodeAction[] = [];
-
-    for (const diagnostic of context.diagnostics) {
-      switch (diagnostic.code) {
-        case 'fivem-while-no-wait':
-        case 'fivem-repeat-no-wait':
-          actions.push(
-            this.createInsertWaitAction(document, diagnostic, 'Wait(0)')
-          );
-          break;
-        case 'fivem-global-variable':
-          actions.push(this.createLocalizeVariableAction(document, diagnostic));
-          break;
-        case 'fivem-citizen-create-thread':
-          actions.push(
-            this.createReplacementAction(document, diagnostic, 'CreateThread')
-          );
-          break;
-        case 'fivem-citizen-wait':
-          actions.push(this.createReplacementAction(document, diagnostic, 'Wait'));
-          break;
-        default:
-          break;
-      }
-    }
-
-    return actions.filter(Boolean) as vscode.CodeAction[];
-  }
-
-  private createInsertWaitAction(
-    document: vscode.TextDocument,
-    diagnostic: vscode.Diagnostic,
-    waitCall: string
-  ): vscode.CodeAction {
-    const action = new vscode.CodeAction(
-      'Insert Wait to prevent freeze',
-      vscode.CodeActionKind.QuickFix
-    );
-    action.diagnostics = [diagnostic];
-
-    const line = diagnostic.range.start.line;
-    const lineText = document.lineAt(line).text;
-    const indent = lineText.match(/^\s*/)?.[0] ?? '';
-    const insertPosition = new vscode.Position(line, lineText.length);
-    const edit = vscode.TextEdit.insert(
-      insertPosition,
-      `\n${indent}  ${waitCall}`
-    );
-
-    action.edit = new vscode.WorkspaceEdit();
-    action.edit.set(document.uri, [edit]);
-    action.isPreferred = true;
-    return action;
-  }
-
-  private createLocalizeVariableAction(
-    document: vscode.TextDocument,
-    diagnostic: vscode.Diagnostic
-  ): vscode.CodeAction {
-    const action = new vscode.CodeAction(
-      "Convert to 'local' variable",
-      vscode.CodeActionKind.QuickFix
-    );
-    action.diagnostics = [diagnostic];
-
-    const line = diagnostic.range.start.line;
-    const lineText = document.lineAt(line).text;
-    const indent = lineText.match(/^\s*/)?.[0] ?? '';
-    const trimmedLine = lineText.trim();
-    const replacement = `${indent}local ${trimmedLine}`;
-
-    action.edit = new vscode.WorkspaceEdit();
-    action.edit.set(document.uri, [vscode.TextEdit.replace(
-      new vscode.Range(new vscode.Position(line, 0), new vscode.Position(line, lineText.length)),
-      replacement
-    )]);
-    action.isPreferred = true;
-    return action;
-  }
-
-  private createReplacementAction(
-    document: vscode.TextDocument,
-    diagnostic: vscode.Diagnostic,
-    replacementText: string
-  ): vscode.CodeAction {
-    const action = new vscode.CodeAction(
-      `Replace with ${replacementText}`,
-      vscode.CodeActionKind.QuickFix
-    );
-    action.diagnostics = [diagnostic];
-
-    action.edit = new vscode.WorkspaceEdit();
-    action.edit.set(document.uri, [
-      vscode.TextEdit.replace(diagnostic.range, replacementText),
-    ]);
-    action.isPreferred = true;
-    return action;
-  }
-}
-
-type LuaDiagnosticContext = {
-  readonly document: vscode.TextDocument;
-  readonly text: string;
-  readonly lines: string[];
-  readonly sanitizedText: string;
-  readonly sanitizedLines: string[];
+  ExecuteCommandRequest,
+  LanguageClient,
+  LanguageClientOptions,
+  ServerOptions,
+  TransportKind,
+} from 'vscode-languageclient/node';
+import { BASELINE_FILE } from './baseline';
+import { DocumentationSource } from './documentation-types';
+import { ScriptSide } from './fxmanifest';
+import {
+  FILE_INFO_REQUEST,
+  FileInfo,
+  FileInfoParams,
+  HashLookupResult,
+  LuaLsDefinitionsResult,
+  SERVER_COMMANDS,
+  ServerInitializationOptions,
+  SETTINGS_SECTION,
+} from './protocol';
+
+const SIDE_ICONS: Record<ScriptSide, string> = {
+  client: '$(device-desktop)',
+  server: '$(server)',
+  shared: '$(arrow-swap)',
 };
 
-const SCAN_DEBOUNCE_MS = 350;
-const documentScanTimers = new Map<string, NodeJS.Timeout>();
-
-let diagnosticCollection: vscode.DiagnosticCollection;
-let documentationManager: DocumentationManager;
-
-export function activate(context: vscode.ExtensionContext) {
-  diagnosticCollection =
-    vscode.languages.createDiagnosticCollection('jericofxLuaTools');
-  context.subscriptions.push(diagnosticCollection);
-
-  documentationManager = new DocumentationManager(context);
-
-  const config = vscode.workspace.getConfiguration('jericofxLuaTools');
-  if (config.get('enableDocumentationFeatures')) {
-    const completionProvider = new LuaCompletionProvider(documentationManager);
-    const hoverProvider = new LuaHoverProvider(documentationManager);
-
-    context.subscriptions.push(
-      vscode.languages.registerCompletionItemProvider(
-        'lua',
-        completionProvider
-      ),
-      vscode.languages.registerHoverProvider('lua', hoverProvider)
-    );
+let client: LanguageClient | undefined;
+let outputChannel: vscode.LogOutputChannel;
+let sideStatus: vscode.StatusBarItem;
+
+export async function activate(context: vscode.ExtensionContext) {
+  outputChannel = vscode.window.createOutputChannel('JericoFX Lua Tools', { log: true });
+
+  // The server runs from the compiled output, the same file editors other than VS Code start.
+  const serverModule = context.asAbsolutePath(path.join('out', 'server.js'));
+  const serverOptions: ServerOptions = {
+    run: { module: serverModule, transport: TransportKind.stdio },
+    debug: {
+      module: serverModule,
+      transport: TransportKind.stdio,
+      options: { execArgv: ['--nolazy', '--inspect=6009'] },
+    },
+  };
+
+  const initializationOptions: ServerInitializationOptions = {
+    documentationCacheDir: path.join(context.globalStorageUri.fsPath, 'documentation'),
+  };
+  const clientOptions: LanguageClientOptions = {
+    documentSelector: [{ language: 'lua' }],
+    synchronize: { configurationSection: SETTINGS_SECTION },
+    initializationOptions,
+    outputChannel,
+  };
+
+  client = new LanguageClient('jericofxLuaTools', 'JericoFX Lua Tools', serverOptions, clientOptions);
+
+  sideStatus = vscode.window.createStatusBarItem('jericofxLuaTools.side', vscode.StatusBarAlignment.Right, 100);
+  sideStatus.name = 'FiveM Script Side';
 
-    documentationManager.refreshDocumentation();
-  }
-
-  const codeActionProvider = new LuaCodeActionProvider();
   context.subscriptions.push(
-    vscode.languages.registerCodeActionsProvider('lua', codeActionProvider, {
-      providedCodeActionKinds: [vscode.CodeActionKind.QuickFix],
-    })
-  );
-
-  const scanCurrentFileCommand = vscode.commands.registerCommand(
-    'jericofxLuaTools.scanCurrentFile',
-    () => {
+    outputChannel,
+    sideStatus,
+    vscode.window.onDidChangeActiveTextEditor(() => void updateSideStatus()),
+    // Saving a manifest can move the current file to another side.
+    vscode.workspace.onDidSaveTextDocument(() => void updateSideStatus()),
+    vscode.commands.registerCommand('jericofxLuaTools.scanCurrentFile', () => {
       const activeEditor = vscode.window.activeTextEditor;
       if (activeEditor && activeEditor.document.languageId === 'lua') {
-        scanDocument(activeEditor.document);
+        void executeServerCommand(SERVER_COMMANDS.scanFile, activeEditor.document.uri.toString());
       }
-    }
-  );
-
-  const scanWorkspaceCommand = vscode.commands.registerCommand(
-    'jericofxLuaTools.scanWorkspace',
-    async () => {
-      const files = await vscode.workspace.findFiles('**/*.lua');
-      await Promise.all(
-        files.map(async (file) => {
-          try {
-            const doc = await vscode.workspace.openTextDocument(file);
-            scheduleDocumentScan(doc);
-          } catch (error) {
-            console.error('Failed to open document during workspace scan:', error);
-          }
-        })
-      );
-    }
-  );
-
-  const onDidChangeTextDocument = vscode.workspace.onDidChangeTextDocument(
-    (event) => {
-      if (event.document.languageId === 'lua') {
-        scheduleDocumentScan(event.document);
+    }),
+    vscode.commands.registerCommand('jericofxLuaTools.scanWorkspace', () =>
+      executeServerCommand(SERVER_COMMANDS.scanWorkspace)
+    ),
+    vscode.commands.registerCommand('jericofxLuaTools.addDocumentationSource', addDocumentationSource),
+    vscode.commands.registerCommand('jericofxLuaTools.refreshDocumentation', () =>
+      executeServerCommand(SERVER_COMMANDS.refreshDocumentation)
+    ),
+    vscode.commands.registerCommand('jericofxLuaTools.manageDocumentationSources', () =>
+      vscode.commands.executeCommand('workbench.action.openSettings', 'jericofxLuaTools.documentationSources')
+    ),
+    vscode.commands.registerCommand('jericofxLuaTools.debugDocumentation', async () => {
+      const debugInfo = await executeServerCommand<string>(SERVER_COMMANDS.debugDocumentation);
+      if (debugInfo) {
+        outputChannel.appendLine(debugInfo);
+        outputChannel.show(true);
       }
-    }
-  );
-
-  const onDidOpenTextDocument = vscode.workspace.onDidOpenTextDocument(
-    (document) => {
-      if (document.languageId === 'lua') {
-        scheduleDocumentScan(document);
+    }),
+    vscode.commands.registerCommand('jericofxLuaTools.clearDocumentationCache', clearDocumentationCache),
+    vscode.commands.registerCommand('jericofxLuaTools.exportSarif', exportSarif),
+    vscode.commands.registerCommand('jericofxLuaTools.createBaseline', createBaseline),
+    vscode.commands.registerCommand('jericofxLuaTools.pruneBaseline', async () => {
+      const folder = await pickWorkspaceFolder();
+      if (folder) {
+        await executeServerCommand(SERVER_COMMANDS.pruneBaseline, folder.uri.toString());
       }
-    }
+    }),
+    vscode.commands.registerCommand('jericofxLuaTools.reverseLookupHash', reverseLookupHash),
+    vscode.commands.registerCommand('jericofxLuaTools.generateLuaLsDefinitions', generateLuaLsDefinitions)
   );
 
-  const onDidCloseTextDocument = vscode.workspace.onDidCloseTextDocument(
-    (document) => {
-      if (document.languageId === 'lua') {
-        cancelScheduledScan(document);
-        diagnosticCollection.delete(document.uri);
-      }
-    }
-  );
-
-  const addDocSourceCommand = vscode.commands.registerCommand(
-    'jericofxLuaTools.addDocumentationSource',
-    () => {
-      documentationManager.addDocumentationSource();
-    }
-  );
-
-  const refreshDocCommand = vscode.commands.registerCommand(
-    'jericofxLuaTools.refreshDocumentation',
-    () => {
-      documentationManager.refreshDocumentation();
-    }
-  );
-
-  const manageDocSourcesCommand = vscode.commands.registerCommand(
-    'jericofxLuaTools.manageDocumentationSources',
-    () => {
-      vscode.commands.executeCommand(
-        'workbench.action.openSettings',
-        'jericofxLuaTools.documentationSources'
-      );
-    }
-  );
-
-  const debugDocCommand = vscode.commands.registerCommand(
-    'jericofxLuaTools.debugDocumentation',
-    () => {
-      const allFunctions = documentationManager.getAllFunctions();
-      const sources = vscode.workspace
-        .getConfiguration('jericofxLuaTools')
-        .get('documentationSources', []);
-
-      let debugInfo = `=== Documentation Debug Info ===\n`;
-      debugInfo += `Total sources configured: ${sources.length}\n`;
-      debugInfo += `Total functions loaded: ${allFunctions.length}\n\n`;
-
-      debugInfo += `Sources:\n`;
-      sources.forEach((source: any) => {
-        debugInfo += `- ${source.name}: ${
-          source.enabled ? 'enabled' : 'disabled'
-        } (${source.type})\n`;
-      });
-
-      debugInfo += `\nFirst 10 functions:\n`;
-      allFunctions.slice(0, 10).forEach((func) => {
-        debugInfo += `- ${func.name} (${func.source})\n`;
-      });
-
-      vscode.window.showInformationMessage(
-        'Debug info written to console. Check Developer Tools.'
-      );
-      console.log(debugInfo);
-    }
-  );
-
-  const clearCacheCommand = vscode.commands.registerCommand(
-    'jericofxLuaTools.clearDocumentationCache',
-    () => {
-      documentationManager.clearDocumentationCache();
-    }
-  );
-
-  context.subscriptions.push(
-    scanCurrentFileCommand,
-    scanWorkspaceCommand,
-    onDidChangeTextDocument,
-    onDidOpenTextDocument,
-    addDocSourceCommand,
-    refreshDocCommand,
-    manageDocSourcesCommand,
-    debugDocCommand,
-    clearCacheCommand,
-    onDidCloseTextDocument
-  );
-
-  vscode.workspace.textDocuments.forEach((document) => {
-    if (document.languageId === 'lua') {
-      scheduleDocumentScan(document);
-    }
-  });
+  await client.start();
+  await updateSideStatus();
 }
 
-function scanDocument(document: vscode.TextDocument) {
-  const config = vscode.workspace.getConfiguration('jericofxLuaTools');
-  const diagnostics: vscode.Diagnostic[] = [];
-
-  const context = createLuaDiagnosticContext(document);
-
-  if (config.get('enableWhileLoopCheck')) {
-    diagnostics.push(...checkWhileLoops(context));
+/** Shows which side the manifest of the current file's resource loads it on. */
+async function updateSideStatus() {
+  const document = vscode.window.activeTextEditor?.document;
+  if (!client?.isRunning() || !document || document.languageId !== 'lua' || document.uri.scheme !== 'file') {
+    sideStatus.hide();
+    return;
   }
 
-  if (config.get('enableRepeatLoopCheck')) {
-    diagnostics.push(...checkRepeatLoops(context));
+  const params: FileInfoParams = { uri: document.uri.toString() };
+  const info = await client.sendRequest<FileInfo | null>(FILE_INFO_REQUEST, params);
+  if (!info) {
+    sideStatus.hide();
+    return;
   }
 
-  if (config.get('enableGlobalVariableCheck')) {
-    diagnostics.push(...checkGlobalVariables(context));
+  const manifest = vscode.workspace.asRelativePath(info.manifest);
+  if (info.side) {
+    sideStatus.text = `${SIDE_ICONS[info.side]} ${info.side}`;
+    sideStatus.tooltip = `${info.resource}: loaded as a ${info.side} script by ${manifest}`;
+  } else {
+    sideStatus.text = '$(circle-slash) not loaded';
+    sideStatus.tooltip = `${info.resource}: no script entry in ${manifest} matches this file`;
   }
-
-  if (config.get('enablePerformanceCheck')) {
-    diagnostics.push(...checkPerformanceIssues(context));
-  }
-
-  if (config.get('enableNetEventCheck')) {
-    diagnostics.push(...checkNetEventPatterns(context));
-  }
-
-  if (config.get('enableCitizenPatterns')) {
-    diagnostics.push(...checkCitizenPatterns(context));
-  }
-
-  if (config.get('enableLocalFunctionOrderCheck')) {
-    diagnostics.push(...checkLocalFunctionOrder(context));
-  }
-
-  diagnosticCollection.set(document.uri, diagnostics);
-}
-
-function scheduleDocumentScan(document: vscode.TextDocument) {
-  const uri = document.uri.toString();
-  cancelScheduledScan(document);
-  const timer = setTimeout(() => {
-    documentScanTimers.delete(uri);
-    scanDocument(document);
-  }, SCAN_DEBOUNCE_MS);
-  documentScanTimers.set(uri, timer);
+  sideStatus.command = { title: 'Open Manifest', command: 'vscode.open', arguments: [vscode.Uri.file(info.manifest)] };
+  sideStatus.show();
 }
 
-function cancelScheduledScan(document: vscode.TextDocument) {
-  const uri = document.uri.toString();
-  const existingTimer = documentScanTimers.get(uri);
-  if (existingTimer) {
-    clearTimeout(existingTimer);
-    documentScanTimers.delete(uri);
+async function executeServerCommand<T = unknown>(command: string, ...args: unknown[]): Promise<T | undefined> {
+  if (!client) {
+    return undefined;
   }
+  return client.sendRequest(ExecuteCommandRequest.type, { command, arguments: args });
 }
 
-function createLuaDiagnosticContext(document: vscode.TextDocument): LuaDiagnosticContext {
-  const text = document.getText();
-  const sanitizedText = tokenizeLua(text);
-  const lines = text.split(/\r?\n/);
-  const sanitizedLines = sanitizedText.split(/\r?\n/);
-  return { document, text, lines, sanitizedText, sanitizedLines };
-}
-
-function isLongBracketStart(text: string, index: number): { length: number; level: number } {
-  if (text[index] !== '[') {
-    return { length: 0, level: -1 };
+async function addDocumentationSource() {
+  const name = await vscode.window.showInputBox({
+    prompt: 'Enter a name for this documentation source',
+    placeHolder: 'e.g., my-custom-lib',
+  });
+  if (!name) {
+    return;
   }
 
-  let cursor = index + 1;
-  let level = 0;
-
-  while (text[cursor] === '=') {
-    level++;
-    cursor++;
+  const url = await vscode.window.showInputBox({
+    prompt: 'Enter the URL or absolute path to the documentation file',
+    placeHolder: 'https://raw.githubusercontent.com/...',
+  });
+  if (!url) {
+    return;
   }
 
-  if (text[cursor] === '[') {
-    return { length: cursor - index + 1, level };
+  const type = await vscode.window.showQuickPick(
+    [
+      { label: 'Lua Types', value: 'lua_types' as const },
+      { label: 'Lua Functions', value: 'lua_functions' as const },
+      { label: 'Natives', value: 'natives' as const },
+      { label: 'Official Natives Database', description: 'natives.json', value: 'natives_official' as const },
+      { label: 'CfxLua Natives', description: 'Lua definition files', value: 'natives_cfxlua' as const },
+      { label: 'Hash Names', description: 'model or weapon names for reverse hash lookups', value: 'hash_names' as const },
+    ],
+    { placeHolder: 'Select the documentation type' }
+  );
+  if (!type) {
+    return;
   }
 
-  return { length: 0, level: -1 };
+  const config = vscode.workspace.getConfiguration(SETTINGS_SECTION);
+  const source: DocumentationSource = { name, url, type: type.value, enabled: true };
+  await config.update(
+    'documentationSources',
+    [...config.get<DocumentationSource[]>('documentationSources', []), source],
+    vscode.ConfigurationTarget.Global
+  );
+  await executeServerCommand(SERVER_COMMANDS.addDocumentationSource, source);
 }
 
-function isLongBracketEnd(
-  text: string,
-  index: number,
-  level: number
-): { matches: boolean; length: number } {
-  if (text[index] !== ']') {
-    return { matches: false, length: 0 };
-  }
-
-  let cursor = index + 1;
-  let matchedEquals = 0;
-
-  while (text[cursor] === '=' && matchedEquals <= level) {
-    matchedEquals++;
-    cursor++;
-  }
-
-  if (matchedEquals === level && text[cursor] === ']') {
-    return { matches: true, length: cursor - index + 1 };
+async function clearDocumentationCache() {
+  const answer = await vscode.window.showWarningMessage(
+    'This will clear all cached documentation and require re-downloading. Continue?',
+    'Yes, Clear Cache',
+    'Cancel'
+  );
+  if (answer === 'Yes, Clear Cache') {
+    await executeServerCommand(SERVER_COMMANDS.clearDocumentationCache);
   }
-
-  return { matches: false, length: 0 };
 }
 
-function tokenizeLua(text: string): string {
-  let result = '';
-  let i = 0;
-  let inLineComment = false;
-  let inBlockComment = false;
-  let blockCommentLevel = 0;
-  let inString = false;
-  let stringDelimiter = '';
-  let inLongString = false;
-  let longStringLevel = 0;
-
-  while (i < text.length) {
-    const char = text[i];
-
-    if (inLineComment) {
-      if (char === '\n') {
-        inLineComment = false;
-        result += '\n';
-      } else {
-        result += ' ';
-      }
-      i++;
-      continue;
-    }
-
-    if (inBlockComment) {
-      const { matches, length } = isLongBracketEnd(text, i, blockCommentLevel);
-      if (matches) {
-        result += ' '.repeat(length);
-        i += length;
-        inBlockComment = false;
-        continue;
-      }
-
-      result += char === '\n' ? '\n' : ' ';
-      i++;
-      continue;
-    }
-
-    if (inLongString) {
-      const { matches, length } = isLongBracketEnd(text, i, longStringLevel);
-      if (matches) {
-        result += ' '.repeat(length);
-        i += length;
-        inLongString = false;
-        continue;
-      }
-
-      result += char === '\n' ? '\n' : ' ';
-      i++;
-      continue;
-    }
-
-    if (inString) {
-      if (char === '\\' && i + 1 < text.length) {
-        result += ' ';
-        result += text[i + 1] === '\n' ? '\n' : ' ';
-        i += 2;
-        continue;
-      }
-
-      if (char === stringDelimiter) {
-        result += ' ';
-        inString = false;
-        i++;
-        continue;
-      }
-
-      result += char === '\n' ? '\n' : ' ';
-      i++;
-      continue;
-    }
-
-    if (char === '-' && text[i + 1] === '-') {
-      const { length, level } = isLongBracketStart(text, i + 2);
-      if (length > 0) {
-        inBlockComment = true;
-        blockCommentLevel = level;
-        result += ' '.repeat(2 + length);
-        i += 2 + length;
-        continue;
-      }
-
-      inLineComment = true;
-      result += '  ';
-      i += 2;
-      continue;
-    }
-
-    const longBracketStart = isLongBracketStart(text, i);
-    if (longBracketStart.length > 0) {
-      inLongString = true;
-      longStringLevel = longBracketStart.level;
-      result += ' '.repeat(longBracketStart.length);
-      i += longBracketStart.length;
-      continue;
-    }
-
-    if (char === '"' || char === "'") {
-      inString = true;
-      stringDelimiter = char;
-      result += ' ';
-      i++;
-      continue;
-    }
-
-    result += char;
-    i++;
+async function pickWorkspaceFolder(): Promise<vscode.WorkspaceFolder | undefined> {
+  const folders = vscode.workspace.workspaceFolders ?? [];
+  if (folders.length === 0) {
+    vscode.window.showWarningMessage('JericoFX Lua Tools: open a folder first.');
+    return undefined;
   }
-
-  return result;
+  return folders.length === 1 ? folders[0] : vscode.window.showWorkspaceFolderPick();
 }
 
-function checkWhileLoops(context: LuaDiagnosticContext): vscode.Diagnostic[] {
-  const diagnostics: vscode.Diagnostic[] = [];
-  const { lines, sanitizedLines } = context;
-
-  for (let lineIndex = 0; lineIndex < sanitizedLines.length; lineIndex++) {
-    const sanitizedLine = sanitizedLines[lineIndex];
-    if (!sanitizedLine.trim()) {
-      continue;
-    }
-    const whileMatch = sanitizedLine.match(/\bwhile\s+.+\s+do\b/);
-
-    if (whileMatch) {
-      const whileBlockEnd = findBlockEnd(sanitizedLines, lineIndex, 'while', 'end');
-      if (whileBlockEnd === -1) continue;
-
-      const hasWait = sanitizedLines
-        .slice(lineIndex + 1, whileBlockEnd)
-        .some((innerLine) => /\b(Wait|Citizen\.Wait)\s*\(/.test(innerLine));
-
-      if (!hasWait) {
-        const range = new vscode.Range(
-          new vscode.Position(lineIndex, whileMatch.index || 0),
-          new vscode.Position(
-            lineIndex,
-            (whileMatch.index || 0) + whileMatch[0].length
-          )
-        );
-
-        const diagnostic = new vscode.Diagnostic(
-          range,
-          'While loop without Wait() detected. Possible server freeze detected!',
-          vscode.DiagnosticSeverity.Warning
-        );
-        diagnostic.code = 'fivem-while-no-wait';
-        diagnostics.push(diagnostic);
-      }
-    }
+async function exportSarif() {
+  const folder = await pickWorkspaceFolder();
+  if (!folder) {
+    return;
   }
 
-  return diagnostics;
-}
-
-function checkRepeatLoops(context: LuaDiagnosticContext): vscode.Diagnostic[] {
-  const diagnostics: vscode.Diagnostic[] = [];
-  const { lines, sanitizedLines } = context;
-
-  for (let lineIndex = 0; lineIndex < sanitizedLines.length; lineIndex++) {
-    const sanitizedLine = sanitizedLines[lineIndex];
-    if (!sanitizedLine.trim()) {
-      continue;
-    }
-    const repeatMatch = sanitizedLine.match(/\brepeat\b/);
-
-    if (repeatMatch) {
-      const repeatBlockEnd = findBlockEnd(
-        sanitizedLines,
-        lineIndex,
-        'repeat',
-        'until'
-      );
-      if (repeatBlockEnd === -1) continue;
-
-      const hasWait = sanitizedLines
-        .slice(lineIndex + 1, repeatBlockEnd)
-        .some((innerLine) => /\b(Wait|Citizen\.Wait)\s*\(/.test(innerLine));
-
-      if (!hasWait) {
-        const range = new vscode.Range(
-          new vscode.Position(lineIndex, repeatMatch.index || 0),
-          new vscode.Position(
-            lineIndex,
-            (repeatMatch.index || 0) + repeatMatch[0].length
-          )
-        );
-
-        const diagnostic = new vscode.Diagnostic(
-          range,
-          'Repeat loop without Wait() detected. Possible server freeze detected!',
-          vscode.DiagnosticSeverity.Warning
-        );
-        diagnostic.code = 'fivem-repeat-no-wait';
-        diagnostics.push(diagnostic);
-      }
-    }
+  const target = await vscode.window.showSaveDialog({
+    defaultUri: vscode.Uri.joinPath(folder.uri, 'jericofx.sarif'),
+    filters: { SARIF: ['sarif', 'json'] },
+  });
+  if (target) {
+    await executeServerCommand(SERVER_COMMANDS.exportSarif, folder.uri.toString(), target.fsPath);
   }
-
-  return diagnostics;
 }
 
-function checkGlobalVariables(context: LuaDiagnosticContext): vscode.Diagnostic[] {
-  const diagnostics: vscode.Diagnostic[] = [];
-  const { lines, sanitizedLines } = context;
-
-  const localVariables = new Set<string>();
-  const globalPatterns = [
-    'Config',
-    'exports',
-    'RegisterNetEvent',
-    'RegisterServerEvent',
-    'AddEventHandler',
-    'TriggerEvent',
-    'TriggerServerEvent',
-    'TriggerClientEvent',
-  ];
-
-  let tableDepth = 0;
-  let functionDepth = 0;
-
-  for (let lineIndex = 0; lineIndex < lines.length; lineIndex++) {
-    const line = lines[lineIndex];
-    const sanitizedLine = sanitizedLines[lineIndex];
-    const trimmedSanitizedLine = sanitizedLine.trim();
-
-    if (!trimmedSanitizedLine) {
-      continue;
-    }
-
-    const openBraces = (trimmedSanitizedLine.match(/\{/g) || []).length;
-    const closeBraces = (trimmedSanitizedLine.match(/\}/g) || []).length;
-    tableDepth = Math.max(0, tableDepth + openBraces - closeBraces);
-
-    if (
-      trimmedSanitizedLine.includes('function') &&
-      !trimmedSanitizedLine.includes('end')
-    ) {
-      functionDepth++;
-    }
-    if (
-      trimmedSanitizedLine.includes('end') &&
-      !trimmedSanitizedLine.includes('function')
-    ) {
-      functionDepth = Math.max(0, functionDepth - 1);
-    }
-
-    const localMatch = trimmedSanitizedLine.match(
-      /^local\s+([a-zA-Z_][a-zA-Z0-9_]*(?:\s*,\s*[a-zA-Z_][a-zA-Z0-9_]*)*)/
-    );
-    if (localMatch) {
-      const variables = localMatch[1]
-        .split(',')
-        .map((v) => v.trim().replace(/\s*=.*/, ''))
-        .filter((v) => v && /^[a-zA-Z_][a-zA-Z0-9_]*$/.test(v));
-      variables.forEach((variable) => {
-        localVariables.add(variable);
-      });
-    }
-
-    if (tableDepth > 0 || functionDepth > 0) {
-      continue;
-    }
-
-    const assignmentMatch = trimmedSanitizedLine.match(
-      /^([a-zA-Z_][a-zA-Z0-9_]*)\s*=/
-    );
-    if (
-      assignmentMatch &&
-      !trimmedSanitizedLine.startsWith('local ') &&
-      !localVariables.has(assignmentMatch[1]) &&
-      !globalPatterns.includes(assignmentMatch[1]) &&
-      !trimmedSanitizedLine.includes('function') &&
-      !trimmedSanitizedLine.includes('{') &&
-      !trimmedSanitizedLine.includes('}') &&
-      !/^[a-zA-Z_][a-zA-Z0-9_]*\.[a-zA-Z_][a-zA-Z0-9_]*/.test(
-        trimmedSanitizedLine
-      )
-    ) {
-      const range = new vscode.Range(
-        new vscode.Position(lineIndex, lines[lineIndex].indexOf(assignmentMatch[1])),
-        new vscode.Position(
-          lineIndex,
-          lines[lineIndex].indexOf(assignmentMatch[1]) + assignmentMatch[1].length
-        )
-      );
-
-      const diagnostic = new vscode.Diagnostic(
-        range,
-        `Potential global variable '${assignmentMatch[1]}' detected. Consider using 'local'.`,
-        vscode.DiagnosticSeverity.Information
-      );
-      diagnostic.code = 'fivem-global-variable';
-      diagnostics.push(diagnostic);
-    }
+async function createBaseline() {
+  const folder = await pickWorkspaceFolder();
+  if (!folder) {
+    return;
   }
 
-  return diagnostics;
-}
-
-function checkPerformanceIssues(
-  context: LuaDiagnosticContext
-): vscode.Diagnostic[] {
-  const diagnostics: vscode.Diagnostic[] = [];
-  const { lines, sanitizedLines } = context;
-
-  for (let lineIndex = 0; lineIndex < sanitizedLines.length; lineIndex++) {
-    const line = lines[lineIndex];
-    const sanitizedLine = sanitizedLines[lineIndex];
-
-    if (sanitizedLine.includes('GetPlayerPed(-1)')) {
-      const range = new vscode.Range(
-        new vscode.Position(lineIndex, line.indexOf('GetPlayerPed(-1)')),
-        new vscode.Position(
-          lineIndex,
-          line.indexOf('GetPlayerPed(-1)') + 'GetPlayerPed(-1)'.length
-        )
-      );
-
-      const diagnostic = new vscode.Diagnostic(
-        range,
-        'Use PlayerPedId() instead of GetPlayerPed(-1) for better performance.',
-        vscode.DiagnosticSeverity.Hint
-      );
-      diagnostic.code = 'fivem-performance-ped';
-      diagnostics.push(diagnostic);
-    }
-
-    if (sanitizedLine.includes('GetEntityCoords(PlayerPedId())')) {
-      const range = new vscode.Range(
-        new vscode.Position(lineIndex, line.indexOf('GetEntityCoords(PlayerPedId())')),
-        new vscode.Position(
-          lineIndex,
-          line.indexOf('GetEntityCoords(PlayerPedId())') +
-            'GetEntityCoords(PlayerPedId())'.length
-        )
-      );
-
-      const diagnostic = new vscode.Diagnostic(
-        range,
-        'Consider caching PlayerPedId() and coordinates if used frequently in loops.',
-        vscode.DiagnosticSeverity.Hint
-      );
-      diagnostic.code = 'fivem-cache-coords';
-      diagnostics.push(diagnostic);
+  if (fs.existsSync(path.join(folder.uri.fsPath, BASELINE_FILE))) {
+    const answer = await vscode.window.showWarningMessage(
+      `${BASELINE_FILE} already exists. Replace it with the current findings?`,
+      { modal: true },
+      'Replace'
+    );
+    if (answer !== 'Replace') {
+      return;
     }
   }
-
-  return diagnostics;
+  await executeServerCommand(SERVER_COMMANDS.createBaseline, folder.uri.toString());
 }
 
-function findBlockEnd(
-  sanitizedLines: string[],
-  startIndex: number,
-  startKeyword: string,
-  endKeyword: string
-): number {
-  let depth = 1;
-  for (let i = startIndex + 1; i < sanitizedLines.length; i++) {
-    const sanitizedLine = sanitizedLines[i].trim();
-    if (!sanitizedLine) {
-      continue;
-    }
-
-    if (sanitizedLine.includes(startKeyword)) {
-      depth++;
-    }
-    if (sanitizedLine.includes(endKeyword)) {
-      depth--;
-      if (depth === 0) {
-        return i;
-      }
-    }
+async function reverseLookupHash() {
+  const editor = vscode.window.activeTextEditor;
+  const selection = editor && !editor.selection.isEmpty ? editor.document.getText(editor.selection).trim() : undefined;
+  const value = await vscode.window.showInputBox({
+    prompt: 'Enter a hash, signed or unsigned, in decimal or 0x hex',
+    placeHolder: 'e.g., -1216765807 or 0xB779A091',
+    value: selection,
+  });
+  if (!value) {
+    return;
   }
-  return -1;
-}
-
-function checkNetEventPatterns(
-  context: LuaDiagnosticContext
-): vscode.Diagnostic[] {
-  const diagnostics: vscode.Diagnostic[] = [];
-  const { lines } = context;
-
-  let hasRegisterNetEvent = false;
-  let hasAddEventHandler = false;
-  let currentEventName = '';
 
-  for (let lineIndex = 0; lineIndex < lines.length; lineIndex++) {
-    const line = lines[lineIndex];
-
-    const registerNetEventMatch = line.match(
-      /RegisterNetEvent\s*\(\s*['"]([^'"]+)['"]\s*\)/
-    );
-    if (registerNetEventMatch) {
-      hasRegisterNetEvent = true;
-      currentEventName = registerNetEventMatch[1];
-    }
-
-    const registerServerEventMatch = line.match(
-      /RegisterServerEvent\s*\(\s*['"]([^'"]+)['"]\s*\)/
-    );
-    if (registerServerEventMatch) {
-      const nextLine = lineIndex + 1 < lines.length ? lines[lineIndex + 1] : '';
-      if (!nextLine.includes('AddEventHandler')) {
-        const range = new vscode.Range(
-          new vscode.Position(lineIndex, 0),
-          new vscode.Position(lineIndex, line.length)
-        );
-
-        const diagnostic = new vscode.Diagnostic(
-          range,
-          'Consider using RegisterNetEvent("event", function(...) end) instead of separate RegisterServerEvent and AddEventHandler.',
-          vscode.DiagnosticSeverity.Information
-        );
-        diagnostic.code = 'fivem-modern-event';
-        diagnostics.push(diagnostic);
-      }
-    }
-
-    const addEventHandlerMatch = line.match(
-      /AddEventHandler\s*\(\s*['"]([^'"]+)['"]/
-    );
-    if (addEventHandlerMatch) {
-      hasAddEventHandler = true;
-      if (hasRegisterNetEvent && currentEventName === addEventHandlerMatch[1]) {
-        const range = new vscode.Range(
-          new vscode.Position(lineIndex, 0),
-          new vscode.Position(lineIndex, line.length)
-        );
-
-        const diagnostic = new vscode.Diagnostic(
-          range,
-          'You can combine RegisterNetEvent and AddEventHandler: RegisterNetEvent("' +
-            currentEventName +
-            '", function(...) end)',
-          vscode.DiagnosticSeverity.Hint
-        );
-        diagnostic.code = 'fivem-combine-event';
-        diagnostics.push(diagnostic);
-      }
-    }
-
-    const sourceCommaMatch = line.match(/function\s*\(\s*source\s*,(?!\s)/);
-    if (sourceCommaMatch) {
-      const matchIndex = line.indexOf(sourceCommaMatch[0]);
-      const range = new vscode.Range(
-        new vscode.Position(lineIndex, matchIndex),
-        new vscode.Position(lineIndex, matchIndex + sourceCommaMatch[0].length)
-      );
-
-      const diagnostic = new vscode.Diagnostic(
-        range,
-        'Consider adding space after comma in function parameters: function(source, ...).',
-        vscode.DiagnosticSeverity.Hint
-      );
-      diagnostic.code = 'fivem-style-spacing';
-      diagnostics.push(diagnostic);
-    }
+  const result = await executeServerCommand<HashLookupResult | null>(SERVER_COMMANDS.reverseLookupHash, value);
+  if (!result) {
+    vscode.window.showWarningMessage(`${value} is not a 32-bit hash.`);
+    return;
   }
-
-  return diagnostics;
-}
-
-function checkCitizenPatterns(
-  context: LuaDiagnosticContext
-): vscode.Diagnostic[] {
-  const diagnostics: vscode.Diagnostic[] = [];
-  const { lines } = context;
-
-  for (let lineIndex = 0; lineIndex < lines.length; lineIndex++) {
-    const line = lines[lineIndex];
-
-    if (line.includes('Citizen.CreateThread')) {
-      const range = new vscode.Range(
-        new vscode.Position(lineIndex, line.indexOf('Citizen.CreateThread')),
-        new vscode.Position(
-          lineIndex,
-          line.indexOf('Citizen.CreateThread') + 'Citizen.CreateThread'.length
-        )
-      );
-
-      const diagnostic = new vscode.Diagnostic(
-        range,
-        'Use CreateThread instead of Citizen.CreateThread.',
-        vscode.DiagnosticSeverity.Information
-      );
-      diagnostic.code = 'fivem-citizen-create-thread';
-      diagnostics.push(diagnostic);
-    }
-
-    if (line.includes('Citizen.Wait')) {
-      const range = new vscode.Range(
-        new vscode.Position(lineIndex, line.indexOf('Citizen.Wait')),
-        new vscode.Position(
-          lineIndex,
-          line.indexOf('Citizen.Wait') + 'Citizen.Wait'.length
-        )
-      );
-
-      const diagnostic = new vscode.Diagnostic(
-        range,
-        'Use Wait instead of Citizen.Wait.',
-        vscode.DiagnosticSeverity.Information
-      );
-      diagnostic.code = 'fivem-citizen-wait';
-      diagnostics.push(diagnostic);
-    }
+  const values = `${result.unsigned} / ${result.signed}`;
+  if (result.names.length === 0) {
+    vscode.window.showInformationMessage(`No loaded name list has a name for ${values}.`);
+    return;
   }
-
-  return diagnostics;
+  const names = result.names.map(({ name, source }) => `${name} (${source})`).join(', ');
+  vscode.window.showInformationMessage(`${values}: ${names}`);
 }
 
-function checkLocalFunctionOrder(
-  context: LuaDiagnosticContext
-): vscode.Diagnostic[] {
-  const diagnostics: vscode.Diagnostic[] = [];
-  const { lines } = context;
-
-  // Map to store local function declarations: functionName -> lineIndex
-  const localFunctionDeclarations = new Map<string, number>();
-
-  // Array to store function calls: [functionName, lineIndex, columnIndex]
-  const functionCalls: Array<{ name: string; line: number; column: number }> =
-    [];
-
-  // First pass: Find all local function declarations
-  for (let lineIndex = 0; lineIndex < lines.length; lineIndex++) {
-    const line = lines[lineIndex];
-
-    // Match local function declarations: local function functionName(...)
-    const localFunctionMatch = line.match(
-      /local\s+function\s+([a-zA-Z_][a-zA-Z0-9_]*)\s*\(/
-    );
-
-    if (localFunctionMatch) {
-      const functionName = localFunctionMatch[1];
-      localFunctionDeclarations.set(functionName, lineIndex);
-    }
+/** Writes the definitions into the folder and adds them to the folder's `Lua.workspace.library` for LuaLS. */
+async function generateLuaLsDefinitions() {
+  const folder = await pickWorkspaceFolder();
+  if (!folder) {
+    return;
   }
 
-  // Second pass: Find all function calls
-  for (let lineIndex = 0; lineIndex < lines.length; lineIndex++) {
-    const line = lines[lineIndex];
-
-    // Skip lines that are comments
-    if (line.trim().startsWith('--')) {
-      continue;
-    }
-
-    // Skip lines that declare local functions (to avoid false positives)
-    if (line.match(/local\s+function\s+[a-zA-Z_][a-zA-Z0-9_]*\s*\(/)) {
-      continue;
-    }
-
-    // Find function calls using regex
-    const functionCallRegex = /\b([a-zA-Z_][a-zA-Z0-9_]*)\s*\(/g;
-    let match;
-
-    while ((match = functionCallRegex.exec(line)) !== null) {
-      const functionName = match[1];
-      const columnIndex = match.index;
-
-      // Only consider calls to functions that are declared as local functions
-      if (localFunctionDeclarations.has(functionName)) {
-        functionCalls.push({
-          name: functionName,
-          line: lineIndex,
-          column: columnIndex,
-        });
-      }
-    }
+  const result = await executeServerCommand<LuaLsDefinitionsResult | null>(
+    SERVER_COMMANDS.generateLuaLsDefinitions,
+    folder.uri.toString()
+  );
+  if (!result) {
+    return;
   }
 
-  // Third pass: Check if function calls occur before their declarations
-  for (const call of functionCalls) {
-    const declarationLine = localFunctionDeclarations.get(call.name);
-
-    if (declarationLine !== undefined && call.line < declarationLine) {
-      const range = new vscode.Range(
-        new vscode.Position(call.line, call.column),
-        new vscode.Position(call.line, call.column + call.name.length)
-      );
-
-      const diagnostic = new vscode.Diagnostic(
-        range,
-        `Local function '${
-          call.name
-        }' is used before it's declared (declared on line ${
-          declarationLine + 1
-        }). This will cause a runtime error.`,
-        vscode.DiagnosticSeverity.Error
-      );
-      diagnostic.code = 'lua-function-order-error';
-      diagnostics.push(diagnostic);
-    }
+  const luaConfig = vscode.workspace.getConfiguration('Lua', folder.uri);
+  const inspected = luaConfig.inspect<string[]>('workspace.library');
+  const library = inspected?.workspaceFolderValue ?? [];
+  if (!library.includes(result.library)) {
+    await luaConfig.update(
+      'workspace.library',
+      [...library, result.library],
+      vscode.ConfigurationTarget.WorkspaceFolder
+    );
   }
-
-  return diagnostics;
 }
 
-export function deactivate() {
-  if (diagnosticCollection) {
-    diagnosticCollection.dispose();
-  }
+export function deactivate(): Thenable<void> | undefined {
+  return client?.stop();
 }
@@ -0,0 +1,236 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CallExpression, Chunk, Expression, SourceRange } from './lua-ast';
+import { parseLua } from './lua-parser';
+import { globToRegExp } from './project-config';
+
+/** Checked in this order; `__resource.lua` is the legacy manifest name. */
+export const MANIFEST_FILES = ['fxmanifest.lua', '__resource.lua'];
+
+/** Where a script runs; `shared` scripts are loaded on both sides. */
+export type ScriptSide = 'client' | 'server' | 'shared';
+
+/** A string given to a manifest directive, with its location in the manifest. */
+export interface ManifestValue {
+  value: string;
+  range: SourceRange;
+}
+
+/** A directive call such as `client_scripts { ... }`, with every string it was given. */
+export interface ManifestDirective {
+  name: string;
+  values: ManifestValue[];
+  range: SourceRange;
+}
+
+export interface ResourceManifest {
+  filePath: string;
+  /** Resource folder; its name is the resource name. */
+  directory: string;
+  name: string;
+  /** True for `__resource.lua`. */
+  legacy: boolean;
+  directives: ManifestDirective[];
+  fxVersion?: ManifestValue;
+  games: ManifestValue[];
+  lua54: boolean;
+  /** Script paths and globs per side, relative to the resource folder. */
+  scripts: Record<ScriptSide, ManifestValue[]>;
+  dependencies: ManifestValue[];
+  /** Syntax error that kept the manifest from being read. */
+  error?: string;
+}
+
+/** The resource a file belongs to and the side it is loaded on, if the manifest lists it. */
+export interface FileResource {
+  resource: ResourceManifest;
+  side: ScriptSide | undefined;
+}
+
+const SCRIPT_DIRECTIVES: Record<string, ScriptSide> = {
+  client_script: 'client',
+  client_scripts: 'client',
+  server_script: 'server',
+  server_scripts: 'server',
+  shared_script: 'shared',
+  shared_scripts: 'shared',
+};
+
+export function isManifestFile(filePath: string): boolean {
+  return MANIFEST_FILES.includes(path.basename(filePath));
+}
+
+/** Reads the directives of a manifest. Only literal strings and tables of strings are evaluated. */
+export function parseManifest(text: string, filePath: string): ResourceManifest {
+  const { ast, error } = parseLua(text);
+  const manifest = readManifest(ast, filePath);
+  if (error) {
+    manifest.error = error.message;
+  }
+  return manifest;
+}
+
+/** Builds the manifest model from an already parsed manifest file. */
+export function readManifest(ast: Chunk | undefined, filePath: string): ResourceManifest {
+  const directory = path.dirname(filePath);
+  const manifest: ResourceManifest = {
+    filePath,
+    directory,
+    name: path.basename(directory),
+    legacy: path.basename(filePath) === '__resource.lua',
+    directives: [],
+    games: [],
+    lua54: false,
+    scripts: { client: [], server: [], shared: [] },
+    dependencies: [],
+  };
+
+  for (const statement of ast?.body ?? []) {
+    if (statement.type !== 'CallStatement') {
+      continue;
+    }
+    const directive = readDirective(statement.expression);
+    if (!directive) {
+      continue;
+    }
+    manifest.directives.push(directive);
+
+    const { name, values } = directive;
+    if (name in SCRIPT_DIRECTIVES) {
+      manifest.scripts[SCRIPT_DIRECTIVES[name]].push(...values);
+    } else if (name === 'fx_version') {
+      manifest.fxVersion = values[0];
+    } else if (name === 'game' || name === 'games') {
+      manifest.games.push(...values);
+    } else if (name === 'lua54') {
+      manifest.lua54 = values[0]?.value === 'yes';
+    } else if (name === 'dependency' || name === 'dependencies') {
+      manifest.dependencies.push(...values);
+    }
+  }
+
+  return manifest;
+}
+
+/**
+ * Reads `name 'value'`, `name { 'a', 'b' }` and chained calls such as
+ * `client_script 'a.lua' 'b.lua'`.
+ */
+function readDirective(call: CallExpression): ManifestDirective | undefined {
+  const values: ManifestValue[] = [];
+  let current: Expression = call;
+
+  while (current.type === 'CallExpression') {
+    values.unshift(...current.arguments.flatMap(readValues));
+    current = current.base;
+  }
+
+  return current.type === 'Identifier' ? { name: current.name, values, range: call.range } : undefined;
+}
+
+function readValues(expression: Expression): ManifestValue[] {
+  if (expression.type === 'StringLiteral') {
+    return [{ value: expression.value, range: expression.range }];
+  }
+  if (expression.type === 'TableConstructor') {
+    return expression.fields.flatMap((field) => (field.type === 'TableValue' ? readValues(field.value) : []));
+  }
+  return [];
+}
+
+/** Whether a script entry names a file of another resource, e.g. `@ox_lib/init.lua`. */
+export function isExternalScript(script: string): boolean {
+  return script.startsWith('@');
+}
+
+/** Matches a manifest path or glob against absolute paths; `**` spans folders. */
+export function scriptPatternToRegExp(script: string, resourceDir: string): RegExp {
+  // Manifest paths are relative to the resource folder, not matched at any depth.
+  return globToRegExp(`./${script.replace(/\\/g, '/').replace(/^\.?\//, '')}`, resourceDir);
+}
+
+/** Whether code on side `a` can reach code on side `b`; shared and unknown sides reach both. */
+export function sidesOverlap(a: ScriptSide | undefined, b: ScriptSide | undefined): boolean {
+  return !a || !b || a === 'shared' || b === 'shared' || a === b;
+}
+
+/** The side a file is loaded on by `manifest`, or undefined when no script entry matches it. */
+export function getScriptSide(manifest: ResourceManifest, filePath: string): ScriptSide | undefined {
+  const normalized = filePath.split(path.sep).join('/');
+  const matches = (side: ScriptSide) =>
+    manifest.scripts[side].some(
+      ({ value }) => !isExternalScript(value) && scriptPatternToRegExp(value, manifest.directory).test(normalized)
+    );
+
+  const client = matches('client');
+  const server = matches('server');
+  if (matches('shared') || (client && server)) {
+    return 'shared';
+  }
+  return client ? 'client' : server ? 'server' : undefined;
+}
+
+/**
+ * Finds the resource manifest that applies to a file: the nearest
+ * `fxmanifest.lua` or `__resource.lua` above it. Parsed manifests are
+ * cached per directory until `invalidate` is called.
+ */
+export class ManifestIndex {
+  // `null` marks a directory that has no manifest.
+  private readonly directories = new Map<string, ResourceManifest | null>();
+
+  /** `rootDir` is the workspace folder; manifests above it are ignored. */
+  findResource(filePath: string, rootDir?: string): ResourceManifest | undefined {
+    const root = rootDir ? path.resolve(rootDir) : undefined;
+
+    for (let current = path.dirname(path.resolve(filePath)); ; ) {
+      const manifest = this.loadDirectory(current);
+      if (manifest) {
+        return manifest;
+      }
+
+      const parent = path.dirname(current);
+      if (current === root || parent === current) {
+        return undefined;
+      }
+      current = parent;
+    }
+  }
+
+  getFileResource(filePath: string, rootDir?: string): FileResource | undefined {
+    const resource = this.findResource(filePath, rootDir);
+    return resource ? { resource, side: getScriptSide(resource, filePath) } : undefined;
+  }
+
+  /** Forgets a changed manifest, or everything when no path is given. */
+  invalidate(manifestPath?: string): void {
+    if (manifestPath) {
+      this.directories.delete(path.dirname(manifestPath));
+    } else {
+      this.directories.clear();
+    }
+  }
+
+  private loadDirectory(directory: string): ResourceManifest | null {
+    const cached = this.directories.get(directory);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    let manifest: ResourceManifest | null = null;
+    for (const name of MANIFEST_FILES) {
+      const filePath = path.join(directory, name);
+      if (fs.existsSync(filePath)) {
+        try {
+          manifest = parseManifest(fs.readFileSync(filePath, 'utf8'), filePath);
+        } catch (error) {
+          console.error(`Failed to read ${filePath}:`, error);
+        }
+        break;
+      }
+    }
+
+    this.directories.set(directory, manifest);
+    return manifest;
+  }
+}
@@ -0,0 +1,205 @@
+import { FunctionDoc } from './documentation-types';
+import { AnalysisContext, LintDiagnostic, report } from './lint-context';
+import {
+  CallExpression,
+  Chunk,
+  containsPosition,
+  Expression,
+  GenericForStatement,
+  getCalleeName,
+  getStringArgument,
+  isFunctionNode,
+  Node,
+  NumericForStatement,
+  RepeatStatement,
+  SourceRange,
+  walkAst,
+  WhileStatement,
+} from './lua-ast';
+
+/** A value in the source that is, or computes, a joaat hash. */
+export interface HashExpression {
+  range: SourceRange;
+  /** Unsigned 32-bit value. */
+  hash: number;
+  /** The hashed string, for backtick literals and `GetHashKey('...')`. */
+  text?: string;
+}
+
+/** What tells a decimal number apart from a duration or a count. */
+export interface HashLookups {
+  /** Documentation of a called function; numbers passed for a `Hash` parameter are hashes. */
+  lookupFunctionDocs(name: string): FunctionDoc[];
+  /** Whether a loaded name list has a name for `hash`. */
+  hasName(hash: number): boolean;
+}
+
+// Smaller integers are counts, indexes and flags far more often than hashes.
+const MIN_RAW_HASH = 0x10000;
+
+/**
+ * Jenkins one-at-a-time hash as the game computes it for `GetHashKey` and
+ * CfxLua backtick literals: ASCII letters are lowercased first.
+ */
+export function joaat(text: string): number {
+  let hash = 0;
+  for (const byte of Buffer.from(text.replace(/[A-Z]/g, (letter) => letter.toLowerCase()), 'utf8')) {
+    hash = (hash + byte) >>> 0;
+    hash = (hash + (hash << 10)) >>> 0;
+    hash = (hash ^ (hash >>> 6)) >>> 0;
+  }
+  hash = (hash + (hash << 3)) >>> 0;
+  hash = (hash ^ (hash >>> 11)) >>> 0;
+  return (hash + (hash << 15)) >>> 0;
+}
+
+/** The value natives return for a hash, which Lua sees as a signed 32-bit integer. */
+export function toSignedHash(hash: number): number {
+  return hash | 0;
+}
+
+/** Reads a hash typed by a user, signed or unsigned, decimal or `0x` hex; undefined when it does not fit 32 bits. */
+export function parseHashValue(text: string): number | undefined {
+  const trimmed = text.trim();
+  if (!/^-?(0x[0-9a-f]+|\d+)$/i.test(trimmed)) {
+    return undefined;
+  }
+  const negative = trimmed.startsWith('-');
+  const value = BigInt(negative ? trimmed.slice(1) : trimmed) * (negative ? -1n : 1n);
+  return value >= -(2n ** 31n) && value < 2n ** 32n ? Number(BigInt.asUintN(32, value)) : undefined;
+}
+
+/**
+ * The hash at `offset`: a backtick literal, a `GetHashKey('...')` call with
+ * a literal name, or an integer literal large enough to be a raw hash. A
+ * decimal literal such as `Wait(100000)` only counts when it is passed for a
+ * documented `Hash` parameter or a loaded name list knows its hash.
+ */
+export function findHashExpressionAt(ast: Chunk, offset: number, lookups: HashLookups): HashExpression | undefined {
+  let found: HashExpression | undefined;
+  // Innermost call around `offset`, to find the parameter a number is passed for.
+  let call: CallExpression | undefined;
+
+  walkAst(ast, {
+    enter(node, parent) {
+      if (found || !containsPosition(node.range, offset)) {
+        return false;
+      }
+      if (node.type === 'CallExpression') {
+        call = node;
+      }
+      if (node.type === 'HashLiteral') {
+        found = { range: node.range, hash: joaat(node.value), text: node.value };
+      } else if (node.type === 'CallExpression' && getCalleeName(node) === 'GetHashKey') {
+        const name = getStringArgument(node, 0);
+        if (name && containsPosition(name.range, offset)) {
+          found = { range: name.range, hash: joaat(name.value), text: name.value };
+        }
+      } else if (node.type === 'NumericLiteral') {
+        // `-123456` is a unary minus applied to the literal.
+        const negated = parent?.type === 'UnaryExpression' && parent.operator === '-';
+        const hash = parseHashValue(`${negated ? '-' : ''}${node.raw}`);
+        const expression = negated ? parent : node;
+        if (
+          hash !== undefined &&
+          Math.abs(toSignedHash(hash)) >= MIN_RAW_HASH &&
+          (/^0x/i.test(node.raw) || isHashArgument(call, expression, lookups) || lookups.hasName(hash))
+        ) {
+          found = { range: expression.range, hash };
+        }
+      }
+    },
+  });
+
+  return found;
+}
+
+/**
+ * Reports `GetHashKey('name')` inside loops: the literal hashes to the same
+ * value on every iteration, while a backtick literal is hashed once when the
+ * script loads.
+ */
+export function checkHashKeyCalls(context: AnalysisContext): LintDiagnostic[] {
+  const diagnostics: LintDiagnostic[] = [];
+  const { ast } = context;
+  if (!ast) {
+    return diagnostics;
+  }
+
+  // Loop depth per enclosing function; a function defined in a loop does not run on each iteration.
+  const loopDepths = [0];
+  // Nodes that run on every iteration of the loop around them.
+  const repeated = new Set<Node>();
+  walkAst(ast, {
+    enter(node) {
+      if (repeated.has(node)) {
+        loopDepths[loopDepths.length - 1]++;
+      }
+      if (isFunctionNode(node)) {
+        loopDepths.push(0);
+      } else if (isLoop(node)) {
+        getRepeatedNodes(node).forEach((child) => repeated.add(child));
+      } else if (node.type === 'CallExpression' && loopDepths[loopDepths.length - 1] > 0) {
+        checkHashKeyCall(context, node, diagnostics);
+      }
+    },
+    leave(node) {
+      if (isFunctionNode(node)) {
+        loopDepths.pop();
+      }
+      if (repeated.delete(node)) {
+        loopDepths[loopDepths.length - 1]--;
+      }
+    },
+  });
+
+  return diagnostics;
+}
+
+function checkHashKeyCall(context: AnalysisContext, call: CallExpression, diagnostics: LintDiagnostic[]): void {
+  const name = getStringArgument(call, 0);
+  if (getCalleeName(call) !== 'GetHashKey' || call.arguments.length !== 1 || !name) {
+    return;
+  }
+
+  // A backtick literal cannot contain a backtick or span lines.
+  const fix = /[`\r\n]/.test(name.value)
+    ? undefined
+    : {
+        title: `Replace with \`${name.value}\``,
+        edits: [{ range: call.range, newText: `\`${name.value}\`` }],
+      };
+  report(
+    context,
+    diagnostics,
+    'fivem-cache-hash',
+    call.range,
+    `GetHashKey('${name.value}') hashes the same string on every iteration; a backtick literal is hashed once when the script loads.`,
+    fix
+  );
+}
+
+function isHashArgument(call: CallExpression | undefined, argument: Node, lookups: HashLookups): boolean {
+  const index = call ? call.arguments.indexOf(argument as Expression) : -1;
+  const name = call && getCalleeName(call);
+  if (index < 0 || !name) {
+    return false;
+  }
+  return lookups
+    .lookupFunctionDocs(name)
+    .some((doc) => doc.parameters?.[index]?.type?.trim().toLowerCase() === 'hash');
+}
+
+function isLoop(node: Node): node is WhileStatement | RepeatStatement | NumericForStatement | GenericForStatement {
+  return (
+    node.type === 'WhileStatement' ||
+    node.type === 'RepeatStatement' ||
+    node.type === 'NumericForStatement' ||
+    node.type === 'GenericForStatement'
+  );
+}
+
+/** The body, and the condition of `while` and `repeat`; a `for` header is evaluated once. */
+function getRepeatedNodes(loop: WhileStatement | RepeatStatement | NumericForStatement | GenericForStatement): Node[] {
+  return loop.type === 'WhileStatement' || loop.type === 'RepeatStatement' ? [...loop.body, loop.condition] : loop.body;
+}
@@ -0,0 +1,722 @@
+import { checkCallArguments } from './argument-checks';
+import { getRule } from './config';
+import { checkDeprecatedCalls } from './deprecation-checks';
+import { collectExports, findExportCalls } from './exports';
+import { sidesOverlap } from './fxmanifest';
+import { checkHashKeyCalls } from './joaat';
+import {
+  AssignmentStatement,
+  CallExpression,
+  containsPosition,
+  Expression,
+  getBlockBody,
+  getCalleeName,
+  getStringArgument,
+  Identifier,
+  SourcePosition,
+  SourceRange,
+  walkAst,
+} from './lua-ast';
+import { findLaterLocalFunction } from './lua-scope';
+import { checkLua54Syntax, checkManifest } from './manifest-checks';
+import { checkInvokeNativeCalls } from './native-hashes';
+import {
+  collectEventReferences,
+  EventReference,
+  isBuiltinEvent,
+  isHandledOn,
+} from './net-events';
+import { checkNetEventSecurity } from './security-checks';
+import { findSimilarName } from './similar-names';
+import {
+  AnalysisContext,
+  getLineBounds,
+  LintDiagnostic,
+  LintFix,
+  positionAt,
+  report,
+} from './lint-context';
+import { formatDirectiveComment, SuppressionDirective, SuppressionMap } from './suppressions';
+
+export type DiagnosticCheck = {
+  readonly rules: readonly string[];
+  readonly run: (context: AnalysisContext) => LintDiagnostic[];
+};
+
+export const DIAGNOSTIC_CHECKS: DiagnosticCheck[] = [
+  { rules: ['lua-syntax-error'], run: checkSyntax },
+  { rules: ['fivem-while-no-wait'], run: checkWhileLoops },
+  { rules: ['fivem-repeat-no-wait'], run: checkRepeatLoops },
+  { rules: ['fivem-global-variable'], run: checkGlobalVariables },
+  { rules: ['fivem-cache-coords'], run: checkPerformanceIssues },
+  { rules: ['fivem-cache-hash'], run: checkHashKeyCalls },
+  {
+    rules: ['fivem-modern-event', 'fivem-combine-event', 'fivem-style-spacing'],
+    run: checkNetEventPatterns,
+  },
+  {
+    rules: ['fivem-citizen-create-thread', 'fivem-citizen-wait'],
+    run: checkCitizenPatterns,
+  },
+  { rules: ['lua-function-order-error'], run: checkLocalFunctionOrder },
+  { rules: ['lua-argument-count', 'lua-argument-type'], run: checkCallArguments },
+  { rules: ['lua-deprecated', 'fivem-performance-ped'], run: checkDeprecatedCalls },
+  { rules: ['fivem-unknown-native-hash', 'fivem-invoke-native'], run: checkInvokeNativeCalls },
+  { rules: ['fivem-wrong-side-native', 'fivem-wrong-side-event'], run: checkScriptSide },
+  { rules: ['fivem-unhandled-event', 'fivem-untriggered-event'], run: checkEventGraph },
+  { rules: ['fivem-unknown-export', 'fivem-unknown-export-resource'], run: checkExportCalls },
+  {
+    rules: [
+      'fivem-client-amount',
+      'fivem-client-code-execution',
+      'fivem-handler-no-source',
+      'fivem-unchecked-privileged-native',
+    ],
+    run: checkNetEventSecurity,
+  },
+  { rules: ['fivem-lua54-syntax'], run: checkLua54Syntax },
+  {
+    rules: [
+      'fxmanifest-missing-key',
+      'fxmanifest-missing-file',
+      'fxmanifest-legacy-resource',
+      'fxmanifest-unknown-dependency',
+    ],
+    run: checkManifest,
+  },
+];
+
+/** Event triggers that are nil on a side, with the one to use there instead. */
+const WRONG_SIDE_TRIGGERS: Record<'client' | 'server', Record<string, string>> = {
+  client: { TriggerClientEvent: 'TriggerServerEvent', TriggerLatentClientEvent: 'TriggerLatentServerEvent' },
+  server: { TriggerServerEvent: 'TriggerClientEvent', TriggerLatentServerEvent: 'TriggerLatentClientEvent' },
+};
+
+function checkSyntax(context: AnalysisContext): LintDiagnostic[] {
+  const diagnostics: LintDiagnostic[] = [];
+  const { syntaxError } = context;
+  if (!syntaxError) {
+    return diagnostics;
+  }
+
+  report(
+    context,
+    diagnostics,
+    'lua-syntax-error',
+    syntaxError.range,
+    `${syntaxError.message}. Other checks are paused until the file parses.`
+  );
+  return diagnostics;
+}
+
+function checkWhileLoops(context: AnalysisContext): LintDiagnostic[] {
+  const diagnostics: LintDiagnostic[] = [];
+  const { ast, yields } = context;
+  if (!ast || !yields) {
+    return diagnostics;
+  }
+
+  walkAst(ast, {
+    enter(node) {
+      if (node.type === 'WhileStatement' && !yields.findLoopYield(node)) {
+        report(
+          context,
+          diagnostics,
+          'fivem-while-no-wait',
+          node.header,
+          'While loop without Wait() detected. Possible server freeze detected!',
+          createInsertWaitFix(context, node.header)
+        );
+      }
+    },
+  });
+
+  return diagnostics;
+}
+
+function checkRepeatLoops(context: AnalysisContext): LintDiagnostic[] {
+  const diagnostics: LintDiagnostic[] = [];
+  const { ast, yields } = context;
+  if (!ast || !yields) {
+    return diagnostics;
+  }
+
+  walkAst(ast, {
+    enter(node) {
+      if (node.type === 'RepeatStatement' && !yields.findLoopYield(node)) {
+        report(
+          context,
+          diagnostics,
+          'fivem-repeat-no-wait',
+          node.header,
+          'Repeat loop without Wait() detected. Possible server freeze detected!',
+          createInsertWaitFix(context, node.header)
+        );
+      }
+    },
+  });
+
+  return diagnostics;
+}
+
+function checkGlobalVariables(context: AnalysisContext): LintDiagnostic[] {
+  const diagnostics: LintDiagnostic[] = [];
+  const { scopes, knownGlobals } = context;
+  if (!scopes) {
+    return diagnostics;
+  }
+
+  const reportedNames = new Set<string>();
+
+  for (const reference of scopes.globalReferences) {
+    const { name } = reference.identifier;
+    if (
+      !reference.isWrite ||
+      reference.declaresFunction ||
+      knownGlobals.has(name) ||
+      reportedNames.has(name)
+    ) {
+      continue;
+    }
+    reportedNames.add(name);
+
+    report(
+      context,
+      diagnostics,
+      'fivem-global-variable',
+      reference.identifier.range,
+      `Potential global variable '${name}' detected. Consider using 'local'.`,
+      createLocalizeFix(context, reference.identifier)
+    );
+  }
+
+  return diagnostics;
+}
+
+function checkPerformanceIssues(
+  context: AnalysisContext
+): LintDiagnostic[] {
+  const diagnostics: LintDiagnostic[] = [];
+  const { ast } = context;
+  if (!ast) {
+    return diagnostics;
+  }
+
+  walkAst(ast, {
+    enter(node) {
+      if (node.type !== 'CallExpression' || node.arguments.length !== 1) {
+        return;
+      }
+
+      const callee = getCalleeName(node);
+      const [argument] = node.arguments;
+
+      if (callee === 'GetEntityCoords' && isCallTo(argument, 'PlayerPedId')) {
+        report(
+          context,
+          diagnostics,
+          'fivem-cache-coords',
+          node.range,
+          'Consider caching PlayerPedId() and coordinates if used frequently in loops.'
+        );
+      }
+    },
+  });
+
+  return diagnostics;
+}
+
+function isCallTo(expression: Expression, name: string): expression is CallExpression {
+  return expression.type === 'CallExpression' && getCalleeName(expression) === name;
+}
+
+function checkNetEventPatterns(
+  context: AnalysisContext
+): LintDiagnostic[] {
+  const diagnostics: LintDiagnostic[] = [];
+  const { ast, text } = context;
+  if (!ast) {
+    return diagnostics;
+  }
+
+  const registeredNetEvents = new Set<string>();
+
+  walkAst(ast, {
+    enter(node) {
+      const body = getBlockBody(node);
+      body?.forEach((statement, index) => {
+        if (
+          statement.type !== 'CallStatement' ||
+          getCalleeName(statement.expression) !== 'RegisterServerEvent' ||
+          !getStringArgument(statement.expression, 0)
+        ) {
+          return;
+        }
+
+        const nextStatement = body[index + 1];
+        const followedByHandler =
+          nextStatement?.type === 'CallStatement' &&
+          getCalleeName(nextStatement.expression) === 'AddEventHandler';
+        if (!followedByHandler) {
+          report(
+            context,
+            diagnostics,
+            'fivem-modern-event',
+            statement.range,
+            'Consider using RegisterNetEvent("event", function(...) end) instead of separate RegisterServerEvent and AddEventHandler.'
+          );
+        }
+      });
+
+      if (node.type === 'CallExpression') {
+        const callee = getCalleeName(node);
+        const eventName = getStringArgument(node, 0)?.value;
+
+        if (callee === 'RegisterNetEvent' && eventName && node.arguments.length === 1) {
+          registeredNetEvents.add(eventName);
+        }
+
+        if (callee === 'AddEventHandler' && eventName && registeredNetEvents.has(eventName)) {
+          report(
+            context,
+            diagnostics,
+            'fivem-combine-event',
+            node.range,
+            'You can combine RegisterNetEvent and AddEventHandler: RegisterNetEvent("' +
+              eventName +
+              '", function(...) end)'
+          );
+        }
+      }
+
+      if (node.type === 'FunctionExpression' && node.parameters[0]?.name === 'source') {
+        const afterSource = node.parameters[0].range.end.offset;
+        const comma = /\s*,(?!\s)/y;
+        comma.lastIndex = afterSource;
+        if (comma.exec(text)) {
+          report(
+            context,
+            diagnostics,
+            'fivem-style-spacing',
+            { start: node.range.start, end: positionAt(text, comma.lastIndex) },
+            'Consider adding space after comma in function parameters: function(source, ...).'
+          );
+        }
+      }
+    },
+  });
+
+  return diagnostics;
+}
+
+function checkCitizenPatterns(
+  context: AnalysisContext
+): LintDiagnostic[] {
+  const diagnostics: LintDiagnostic[] = [];
+  const { ast } = context;
+  if (!ast) {
+    return diagnostics;
+  }
+
+  walkAst(ast, {
+    enter(node) {
+      if (
+        node.type !== 'MemberExpression' ||
+        node.indexer !== '.' ||
+        node.base.type !== 'Identifier' ||
+        node.base.name !== 'Citizen'
+      ) {
+        return;
+      }
+
+      if (node.identifier.name === 'CreateThread') {
+        report(
+          context,
+          diagnostics,
+          'fivem-citizen-create-thread',
+          node.range,
+          'Use CreateThread instead of Citizen.CreateThread.',
+          { title: 'Replace with CreateThread', edits: [{ range: node.range, newText: 'CreateThread' }] }
+        );
+      }
+
+      if (node.identifier.name === 'Wait') {
+        report(
+          context,
+          diagnostics,
+          'fivem-citizen-wait',
+          node.range,
+          'Use Wait instead of Citizen.Wait.',
+          { title: 'Replace with Wait', edits: [{ range: node.range, newText: 'Wait' }] }
+        );
+      }
+    },
+  });
+
+  return diagnostics;
+}
+
+function checkLocalFunctionOrder(
+  context: AnalysisContext
+): LintDiagnostic[] {
+  const diagnostics: LintDiagnostic[] = [];
+  const { scopes } = context;
+  if (!scopes) {
+    return diagnostics;
+  }
+
+  for (const reference of scopes.globalReferences) {
+    if (reference.isWrite) {
+      continue;
+    }
+
+    const declaration = findLaterLocalFunction(reference);
+    if (!declaration) {
+      continue;
+    }
+
+    const { name } = reference.identifier;
+    report(
+      context,
+      diagnostics,
+      'lua-function-order-error',
+      reference.identifier.range,
+      `Local function '${name}' is used before it's declared (declared on line ${
+        declaration.identifier!.range.start.line + 1
+      }). This will cause a runtime error.`
+    );
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Flags globals that are nil on the side the manifest loads the file on.
+ * Shared and unlisted files are skipped, as are names the file defines itself.
+ */
+function checkScriptSide(context: AnalysisContext): LintDiagnostic[] {
+  const diagnostics: LintDiagnostic[] = [];
+  const { scopes, side } = context;
+  if (!scopes || (side !== 'client' && side !== 'server')) {
+    return diagnostics;
+  }
+
+  const assigned = new Set(
+    scopes.globalReferences.filter((reference) => reference.isWrite).map((reference) => reference.identifier.name)
+  );
+
+  for (const reference of scopes.globalReferences) {
+    const { name, range } = reference.identifier;
+    if (reference.isWrite || assigned.has(name)) {
+      continue;
+    }
+
+    const replacement = WRONG_SIDE_TRIGGERS[side][name];
+    if (replacement) {
+      report(
+        context,
+        diagnostics,
+        'fivem-wrong-side-event',
+        range,
+        `${name} does not exist in ${side} scripts. Use ${replacement} to reach the ${
+          side === 'client' ? 'server' : 'client'
+        }.`
+      );
+      continue;
+    }
+
+    // Natives such as GetEntityCoords are documented once per side; a source without a side allows both.
+    const docs = context.lookupFunctionDocs(name);
+    if (docs.length > 0 && docs.every((doc) => doc.side && doc.side !== 'shared' && doc.side !== side)) {
+      const otherSide = side === 'client' ? 'server' : 'client';
+      report(
+        context,
+        diagnostics,
+        'fivem-wrong-side-native',
+        range,
+        `${name} only exists on the ${otherSide}, but the manifest loads this file as a ${side} script.`
+      );
+    }
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Matches the events the file triggers and registers against every other
+ * file in the workspace. Events are matched by their string literal name and
+ * by the side that receives them.
+ */
+function checkEventGraph(context: AnalysisContext): LintDiagnostic[] {
+  const diagnostics: LintDiagnostic[] = [];
+  const { ast, side, text, lookupWorkspaceEvents } = context;
+  if (!ast || !lookupWorkspaceEvents) {
+    return diagnostics;
+  }
+
+  const fileEvents = collectEventReferences(ast, side);
+  if (fileEvents.length === 0) {
+    return diagnostics;
+  }
+
+  const handlers = new Map<string, EventReference[]>();
+  const triggers = new Map<string, EventReference[]>();
+  for (const reference of [...fileEvents, ...lookupWorkspaceEvents()]) {
+    const byName = reference.kind === 'handler' ? handlers : triggers;
+    byName.set(reference.name, [...(byName.get(reference.name) ?? []), reference]);
+  }
+
+  // A file usually registers an event and then adds its handler; one finding is enough.
+  const reportedHandlers = new Set<string>();
+
+  for (const reference of fileEvents) {
+    const { name, target, range } = reference;
+    if (isBuiltinEvent(name)) {
+      continue;
+    }
+
+    if (reference.kind === 'trigger') {
+      if (handlers.get(name)?.some((handler) => isHandledOn(handler.target, target))) {
+        continue;
+      }
+
+      const receiving = target === 'client' || target === 'server' ? `${target} script` : 'script';
+      const suggestion = findSimilarName(
+        name,
+        [...handlers.values()].flat().filter((handler) => isHandledOn(handler.target, target)).map((handler) => handler.name)
+      );
+      const quote = text[range.start.offset];
+      report(
+        context,
+        diagnostics,
+        'fivem-unhandled-event',
+        range,
+        `${reference.callee} sends '${name}', but no ${receiving} in the workspace registers it.${
+          suggestion ? ` Did you mean '${suggestion}'?` : ''
+        }`,
+        suggestion && (quote === '"' || quote === "'")
+          ? { title: `Change to '${suggestion}'`, edits: [{ range, newText: `${quote}${suggestion}${quote}` }] }
+          : undefined
+      );
+    } else if (!reportedHandlers.has(name)) {
+      reportedHandlers.add(name);
+      if (triggers.get(name)?.some((trigger) => isHandledOn(target, trigger.target))) {
+        continue;
+      }
+      report(
+        context,
+        diagnostics,
+        'fivem-untriggered-event',
+        range,
+        `'${name}' is registered here, but nothing in the workspace triggers it${
+          target === 'client' || target === 'server' ? ` on the ${target}` : ''
+        }.`
+      );
+    }
+  }
+
+  return diagnostics;
+}
+
+function checkExportCalls(context: AnalysisContext): LintDiagnostic[] {
+  const diagnostics: LintDiagnostic[] = [];
+  const { ast, scopes, side, resource, knownResources, lookupExports } = context;
+  if (!ast || !lookupExports) {
+    return diagnostics;
+  }
+
+  for (const { resource: name, name: exportName, resourceRange, nameRange } of findExportCalls(ast)) {
+    if (knownResources && knownResources.size > 0 && !knownResources.has(name)) {
+      report(
+        context,
+        diagnostics,
+        'fivem-unknown-export-resource',
+        resourceRange,
+        `No resource named '${name}' was found in the workspace.`
+      );
+      continue;
+    }
+
+    const exports = [
+      ...lookupExports(name),
+      ...(resource?.name === name ? collectExports(ast, scopes, name, side) : []),
+    ];
+    const callable = exports.filter((declaration) => sidesOverlap(declaration.side, side));
+    // Resources that export from JavaScript or C# declare nothing the index can see.
+    if (exports.length === 0 || callable.some((declaration) => declaration.name === exportName)) {
+      continue;
+    }
+
+    const otherSide = exports.find((declaration) => declaration.name === exportName)?.side;
+    const suggestion = otherSide
+      ? undefined
+      : findSimilarName(exportName, callable.map((declaration) => declaration.name));
+    report(
+      context,
+      diagnostics,
+      'fivem-unknown-export',
+      nameRange,
+      otherSide
+        ? `'${name}' only exports ${exportName} to ${otherSide} scripts.`
+        : `'${name}' does not export ${exportName}.${suggestion ? ` Did you mean '${suggestion}'?` : ''}`,
+      suggestion ? { title: `Change to '${suggestion}'`, edits: [{ range: nameRange, newText: suggestion }] } : undefined
+    );
+  }
+
+  return diagnostics;
+}
+
+export function checkUnusedDirectives(
+  context: AnalysisContext,
+  suppressions: SuppressionMap
+): LintDiagnostic[] {
+  const diagnostics: LintDiagnostic[] = [];
+  // Nothing is checked while the file does not parse, so every directive would look unused.
+  if (context.syntaxError) {
+    return diagnostics;
+  }
+
+  for (const { directive, rule } of suppressions.getUnusedDirectives()) {
+    const { comment } = directive;
+    let range = comment.range;
+    let message: string;
+
+    if (rule) {
+      if (getRule(rule) && !context.severities.has(rule)) {
+        continue;
+      }
+      const index = comment.raw.indexOf(rule);
+      if (comment.range.start.line === comment.range.end.line && index >= 0) {
+        const start = shiftPosition(range.start, index);
+        range = { start, end: shiftPosition(start, rule.length) };
+      }
+      message = getRule(rule)
+        ? `Unused '${rule}' in directive: no '${rule}' problems were suppressed.`
+        : `'${rule}' is not a known rule.`;
+    } else {
+      const unknownRule = directive.rules.find((name) => !getRule(name));
+      if (!unknownRule && directive.rules.length > 0 && directive.rules.every((name) => !context.severities.has(name))) {
+        continue;
+      }
+      message = unknownRule
+        ? `'${unknownRule}' is not a known rule.`
+        : `Unused ${comment.value.trim().split(/\s/)[0]} directive: no problems were suppressed.`;
+    }
+
+    const diagnostic = report(
+      context,
+      diagnostics,
+      'jericofx-unused-directive',
+      range,
+      message,
+      createRemoveDirectiveFix(context, directive, rule)
+    );
+    if (diagnostic) {
+      diagnostic.tags = ['unnecessary'];
+    }
+  }
+
+  return diagnostics;
+}
+
+function createInsertWaitFix(context: AnalysisContext, header: SourceRange): LintFix {
+  // The header ends after `do` or `repeat`; a loop body on the same line gets the call inline.
+  const { text } = context;
+  const line = getLineBounds(text, header.end.offset);
+  const indent = /^\s*/.exec(text.slice(line.start, line.end))![0];
+  const isSingleLineLoop = text.slice(header.end.offset, line.end).trim() !== '';
+  return {
+    title: 'Insert Wait to prevent freeze',
+    edits: [
+      {
+        range: { start: header.end, end: header.end },
+        newText: isSingleLineLoop ? ' Wait(0)' : `\n${indent}  Wait(0)`,
+      },
+    ],
+  };
+}
+
+/**
+ * Puts `local` before the assignment that writes `identifier`. Assignments
+ * that share their line with an earlier statement, such as the body of
+ * `if x then y = 1 end`, or that also assign fields, get no fix.
+ */
+function createLocalizeFix(context: AnalysisContext, identifier: Identifier): LintFix | undefined {
+  const { ast, text } = context;
+  let assignment: AssignmentStatement | undefined;
+  walkAst(ast!, {
+    enter(node) {
+      if (assignment || !containsPosition(node.range, identifier.range.start.offset)) {
+        return false;
+      }
+      if (node.type === 'AssignmentStatement' && node.targets.includes(identifier)) {
+        assignment = node;
+      }
+    },
+  });
+  if (!assignment || !assignment.targets.every((target) => target.type === 'Identifier')) {
+    return undefined;
+  }
+
+  const { start } = assignment.range;
+  const line = getLineBounds(text, start.offset);
+  if (text.slice(line.start, start.offset).trim() !== '') {
+    return undefined;
+  }
+  return {
+    title: "Convert to 'local' variable",
+    edits: [{ range: { start, end: start }, newText: 'local ' }],
+  };
+}
+
+/** Drops the unused rule from the directive, or the whole comment when nothing would be left. */
+function createRemoveDirectiveFix(
+  context: AnalysisContext,
+  directive: SuppressionDirective,
+  unusedRule: string | undefined
+): LintFix {
+  const remainingRules = directive.rules.filter((rule) => rule !== unusedRule);
+  if (unusedRule && remainingRules.length > 0) {
+    return {
+      title: `Remove ${unusedRule} from directive`,
+      edits: [{ range: directive.comment.range, newText: formatDirectiveComment(directive, remainingRules) }],
+    };
+  }
+
+  return {
+    title: 'Remove unused directive',
+    edits: [{ range: getCommentRemovalRange(context.text, directive.comment.range), newText: '' }],
+  };
+}
+
+/** Range that removes a comment along with its line when nothing else is on it. */
+function getCommentRemovalRange(text: string, comment: SourceRange): SourceRange {
+  const first = getLineBounds(text, comment.start.offset);
+  const last = getLineBounds(text, comment.end.offset);
+  const before = text.slice(first.start, comment.start.offset);
+  const after = text.slice(comment.end.offset, last.end);
+
+  if (before.trim() !== '' || after.trim() !== '') {
+    const start = first.start + before.trimEnd().length;
+    return { start: positionAt(text, start), end: comment.end };
+  }
+
+  let start = first.start;
+  let end = last.end;
+  if (end < text.length) {
+    // Remove the line break after the comment, whether it is \n or \r\n.
+    end = text.indexOf('\n', end) + 1;
+  } else if (start > 0) {
+    // Last line of the file: remove the line break before the comment instead.
+    start = getLineBounds(text, start - 1).end;
+  }
+  return { start: positionAt(text, start), end: positionAt(text, end) };
+}
+
+function shiftPosition(position: SourcePosition, characters: number): SourcePosition {
+  return {
+    line: position.line,
+    character: position.character + characters,
+    offset: position.offset + characters,
+  };
+}
@@ -0,0 +1,177 @@
+import { RuleSeverity } from './config';
+import { FunctionDoc } from './documentation-types';
+import { ExportDeclaration } from './exports';
+import { ResourceManifest, ScriptSide } from './fxmanifest';
+import { Chunk, Comment, SourcePosition, SourceRange } from './lua-ast';
+import { LuaSyntaxError, parseLua } from './lua-parser';
+import { analyzeScopes, ScopeAnalysis } from './lua-scope';
+import { EventReference } from './net-events';
+import { SuppressionDirective } from './suppressions';
+import { GlobalYieldLookup, YieldAnalyzer } from './yield-analysis';
+
+export type LintSeverity = Exclude<RuleSeverity, 'off'>;
+
+export type LintTag = 'unnecessary' | 'deprecated';
+
+export interface LintTextEdit {
+  range: SourceRange;
+  newText: string;
+}
+
+/** Quick fix for a diagnostic, expressed as plain text edits to the linted file. */
+export interface LintFix {
+  title: string;
+  edits: LintTextEdit[];
+}
+
+/** A step that explains a diagnostic, such as where a flagged value came from. */
+export interface LintRelatedLocation {
+  range: SourceRange;
+  message: string;
+}
+
+/** Editor-independent diagnostic; adapters convert it to their own type. */
+export interface LintDiagnostic {
+  ruleId: string;
+  severity: LintSeverity;
+  message: string;
+  range: SourceRange;
+  tags?: LintTag[];
+  fix?: LintFix;
+  /** Locations in the same file that led to the finding, in the order the value flows through them. */
+  related?: LintRelatedLocation[];
+  /** Set on findings hidden by a `jericofx-disable` comment, when those are requested. */
+  suppressedBy?: SuppressionDirective;
+  /** Set on findings recorded in the project's baseline file. */
+  baselined?: boolean;
+}
+
+/** Diagnostics of one linted file. */
+export interface LintResult {
+  filePath: string;
+  diagnostics: LintDiagnostic[];
+}
+
+export interface LintOptions {
+  /** Global names that may be assigned without a warning. */
+  readonly knownGlobals: ReadonlySet<string>;
+  /** Functions that always yield the calling thread. */
+  readonly yieldingFunctions: ReadonlySet<string>;
+  /** Severity per enabled rule; rules that are off are absent. */
+  readonly severities: ReadonlyMap<string, LintSeverity>;
+  /** Resolves yielding global functions declared in other files. */
+  readonly lookupYieldingGlobal?: GlobalYieldLookup;
+  /** Manifest of the resource the file belongs to. */
+  readonly resource?: ResourceManifest;
+  /** Side the resource manifest loads the file on; unknown for files it does not list. */
+  readonly side?: ScriptSide;
+  /**
+   * Documentation of a global function from every source that documents it;
+   * calls and the sides natives exist on are not checked without it.
+   */
+  readonly lookupFunctionDocs?: (name: string) => FunctionDoc[];
+  /** Names of the resources in the workspace; manifest dependencies are not checked without it. */
+  readonly knownResources?: ReadonlySet<string>;
+  /** Events registered and triggered in the other files of the workspace; events are not matched without it. */
+  readonly lookupWorkspaceEvents?: () => EventReference[];
+  /** Exports a resource declares in the other files of the workspace; export calls are not checked without it. */
+  readonly lookupExports?: (resource: string) => ExportDeclaration[];
+  /** Native with a normalized hash, from a natives database that records hashes; hashes are not checked without it. */
+  readonly lookupNativeHash?: (hash: string) => FunctionDoc | undefined;
+  /** Whether the natives database has game natives, not only CFX ones; unknown hashes are only reported then. */
+  readonly coversGameNatives?: boolean;
+}
+
+export type AnalysisContext = {
+  readonly filePath: string;
+  readonly text: string;
+  readonly ast: Chunk | undefined;
+  readonly comments: Comment[];
+  readonly syntaxError: LuaSyntaxError | undefined;
+  readonly scopes: ScopeAnalysis | undefined;
+  readonly yields: YieldAnalyzer | undefined;
+  readonly knownGlobals: ReadonlySet<string>;
+  readonly yieldingFunctions: ReadonlySet<string>;
+  readonly severities: ReadonlyMap<string, LintSeverity>;
+  readonly resource: ResourceManifest | undefined;
+  readonly side: ScriptSide | undefined;
+  readonly lookupFunctionDocs: (name: string) => FunctionDoc[];
+  readonly knownResources: ReadonlySet<string> | undefined;
+  readonly lookupWorkspaceEvents: (() => EventReference[]) | undefined;
+  readonly lookupExports: ((resource: string) => ExportDeclaration[]) | undefined;
+  readonly lookupNativeHash: ((hash: string) => FunctionDoc | undefined) | undefined;
+  readonly coversGameNatives: boolean;
+};
+
+export function createAnalysisContext(
+  text: string,
+  filePath: string,
+  options: LintOptions
+): AnalysisContext {
+  const { ast, comments, error } = parseLua(text);
+  const scopes = ast ? analyzeScopes(ast) : undefined;
+  return {
+    filePath,
+    text,
+    ast,
+    comments,
+    syntaxError: error,
+    scopes,
+    yields: ast && scopes
+      ? new YieldAnalyzer(ast, scopes, options.yieldingFunctions, options.lookupYieldingGlobal)
+      : undefined,
+    knownGlobals: options.knownGlobals,
+    yieldingFunctions: options.yieldingFunctions,
+    severities: options.severities,
+    resource: options.resource,
+    side: options.side,
+    lookupFunctionDocs: options.lookupFunctionDocs ?? (() => []),
+    knownResources: options.knownResources,
+    lookupWorkspaceEvents: options.lookupWorkspaceEvents,
+    lookupExports: options.lookupExports,
+    lookupNativeHash: options.lookupNativeHash,
+    coversGameNatives: options.coversGameNatives ?? false,
+  };
+}
+
+/** Adds a diagnostic for `ruleId` unless the rule is switched off. */
+export function report(
+  context: AnalysisContext,
+  diagnostics: LintDiagnostic[],
+  ruleId: string,
+  range: SourceRange,
+  message: string,
+  fix?: LintFix
+): LintDiagnostic | undefined {
+  const severity = context.severities.get(ruleId);
+  if (severity === undefined) {
+    return undefined;
+  }
+
+  const diagnostic: LintDiagnostic = { ruleId, severity, message, range, ...(fix ? { fix } : {}) };
+  diagnostics.push(diagnostic);
+  return diagnostic;
+}
+
+/** Start and end offsets of the line containing `offset`, without its line break. */
+export function getLineBounds(text: string, offset: number): { start: number; end: number } {
+  const start = text.lastIndexOf('\n', offset - 1) + 1;
+  let end = text.indexOf('\n', offset);
+  if (end < 0) {
+    end = text.length;
+  }
+  if (end > start && text[end - 1] === '\r') {
+    end--;
+  }
+  return { start, end };
+}
+
+export function positionAt(text: string, offset: number): SourcePosition {
+  let line = 0;
+  let lineStart = 0;
+  for (let index = text.indexOf('\n'); index >= 0 && index < offset; index = text.indexOf('\n', index + 1)) {
+    line++;
+    lineStart = index + 1;
+  }
+  return { line, character: offset - lineStart, offset };
+}
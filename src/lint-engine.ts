@@ -0,0 +1,92 @@
+import { RuleMetadata, RULES, RULE_SEVERITIES, RuleSeverity } from './config';
+import { checkUnusedDirectives, DIAGNOSTIC_CHECKS } from './lint-checks';
+import {
+  AnalysisContext,
+  createAnalysisContext,
+  LintDiagnostic,
+  LintOptions,
+  LintSeverity,
+} from './lint-context';
+import { SuppressionMap } from './suppressions';
+
+export {
+  AnalysisContext,
+  createAnalysisContext,
+  LintDiagnostic,
+  LintFix,
+  LintOptions,
+  LintRelatedLocation,
+  LintResult,
+  LintSeverity,
+  LintTag,
+  LintTextEdit,
+} from './lint-context';
+
+/**
+ * Resolves the effective severity of every rule. `overrides` win; other
+ * rules use their default unless `isEnabled` switches them off.
+ */
+export function resolveRuleSeverities(
+  overrides: Record<string, RuleSeverity>,
+  isEnabled: (rule: RuleMetadata) => boolean = () => true
+): Map<string, LintSeverity> {
+  const severities = new Map<string, LintSeverity>();
+
+  for (const rule of RULES) {
+    let severity = overrides[rule.id];
+    if (!severity || !RULE_SEVERITIES.includes(severity)) {
+      severity = isEnabled(rule) ? rule.defaultSeverity : 'off';
+    }
+    if (severity !== 'off') {
+      severities.set(rule.id, severity);
+    }
+  }
+
+  return severities;
+}
+
+/**
+ * Runs every enabled check and applies `jericofx-disable` directives.
+ * Suppressed findings are dropped unless `includeSuppressed` is set, in
+ * which case they are returned with `suppressedBy`.
+ */
+export function lintContext(
+  context: AnalysisContext,
+  { includeSuppressed = false }: { includeSuppressed?: boolean } = {}
+): LintDiagnostic[] {
+  const diagnostics: LintDiagnostic[] = [];
+
+  for (const check of DIAGNOSTIC_CHECKS) {
+    if (check.rules.some((rule) => context.severities.has(rule))) {
+      diagnostics.push(...check.run(context));
+    }
+  }
+
+  const suppressions = new SuppressionMap(context.comments);
+  const results: LintDiagnostic[] = [];
+  for (const diagnostic of diagnostics) {
+    const directive = suppressions.getSuppressingDirective(diagnostic.ruleId, diagnostic.range.start.line);
+    if (!directive) {
+      results.push(diagnostic);
+    } else if (includeSuppressed) {
+      results.push({ ...diagnostic, suppressedBy: directive });
+    }
+  }
+  results.push(...checkUnusedDirectives(context, suppressions));
+
+  return results;
+}
+
+export function lintText(text: string, filePath: string, options: LintOptions): LintDiagnostic[] {
+  return lintContext(createAnalysisContext(text, filePath, options));
+}
+
+/** Whether a diagnostic should be shown, i.e. it is neither suppressed nor in the baseline. */
+export function isReported(diagnostic: LintDiagnostic): boolean {
+  return !diagnostic.suppressedBy && !diagnostic.baselined;
+}
+
+/** Orders severities from least to most severe, e.g. for exit-code thresholds. */
+export function compareSeverity(a: LintSeverity, b: LintSeverity): number {
+  return RULE_SEVERITIES.indexOf(a) - RULE_SEVERITIES.indexOf(b);
+}
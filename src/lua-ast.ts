@@ -0,0 +1,482 @@
+export interface SourcePosition {
+  line: number;
+  character: number;
+  offset: number;
+}
+
+export interface SourceRange {
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
+interface BaseNode {
+  range: SourceRange;
+}
+
+export interface Comment extends BaseNode {
+  type: 'Comment';
+  value: string;
+  raw: string;
+  long: boolean;
+}
+
+export interface Chunk extends BaseNode {
+  type: 'Chunk';
+  body: Statement[];
+  comments: Comment[];
+}
+
+export interface Identifier extends BaseNode {
+  type: 'Identifier';
+  name: string;
+  /** Lua 5.4 local attribute, e.g. `<const>` or `<close>`. */
+  attribute?: string;
+}
+
+export interface NilLiteral extends BaseNode {
+  type: 'NilLiteral';
+}
+
+export interface BooleanLiteral extends BaseNode {
+  type: 'BooleanLiteral';
+  value: boolean;
+}
+
+export interface NumericLiteral extends BaseNode {
+  type: 'NumericLiteral';
+  value: number;
+  raw: string;
+}
+
+export interface StringLiteral extends BaseNode {
+  type: 'StringLiteral';
+  value: string;
+  raw: string;
+}
+
+export interface VarargLiteral extends BaseNode {
+  type: 'VarargLiteral';
+}
+
+/** CfxLua backtick literal, compiled to a joaat hash at load time. */
+export interface HashLiteral extends BaseNode {
+  type: 'HashLiteral';
+  value: string;
+  raw: string;
+}
+
+/** CfxLua vector constructor such as `vector3(x, y, z)` or `vec(x, y)`. */
+export interface VectorLiteral extends BaseNode {
+  type: 'VectorLiteral';
+  callee: Identifier;
+  components: Expression[];
+}
+
+export interface FunctionExpression extends BaseNode {
+  type: 'FunctionExpression';
+  parameters: Identifier[];
+  isVararg: boolean;
+  body: Statement[];
+}
+
+export interface TableKey extends BaseNode {
+  type: 'TableKey';
+  key: Expression;
+  value: Expression;
+}
+
+export interface TableKeyString extends BaseNode {
+  type: 'TableKeyString';
+  key: Identifier;
+  value: Expression;
+}
+
+export interface TableValue extends BaseNode {
+  type: 'TableValue';
+  value: Expression;
+}
+
+export type TableField = TableKey | TableKeyString | TableValue;
+
+export interface TableConstructor extends BaseNode {
+  type: 'TableConstructor';
+  fields: TableField[];
+}
+
+export interface BinaryExpression extends BaseNode {
+  type: 'BinaryExpression';
+  operator: string;
+  left: Expression;
+  right: Expression;
+}
+
+export interface UnaryExpression extends BaseNode {
+  type: 'UnaryExpression';
+  operator: string;
+  argument: Expression;
+}
+
+export interface MemberExpression extends BaseNode {
+  type: 'MemberExpression';
+  base: Expression;
+  indexer: '.' | ':';
+  identifier: Identifier;
+  /** True for CfxLua safe navigation (`a?.b`). */
+  safe: boolean;
+}
+
+export interface IndexExpression extends BaseNode {
+  type: 'IndexExpression';
+  base: Expression;
+  index: Expression;
+  safe: boolean;
+}
+
+export interface CallExpression extends BaseNode {
+  type: 'CallExpression';
+  base: Expression;
+  arguments: Expression[];
+}
+
+export interface ParenthesizedExpression extends BaseNode {
+  type: 'ParenthesizedExpression';
+  expression: Expression;
+}
+
+export type Expression =
+  | Identifier
+  | NilLiteral
+  | BooleanLiteral
+  | NumericLiteral
+  | StringLiteral
+  | VarargLiteral
+  | HashLiteral
+  | VectorLiteral
+  | FunctionExpression
+  | TableConstructor
+  | BinaryExpression
+  | UnaryExpression
+  | MemberExpression
+  | IndexExpression
+  | CallExpression
+  | ParenthesizedExpression;
+
+export interface LocalStatement extends BaseNode {
+  type: 'LocalStatement';
+  names: Identifier[];
+  init: Expression[];
+  /** CfxLua `local a, b in t` unpacking. */
+  unpack: boolean;
+}
+
+export interface AssignmentStatement extends BaseNode {
+  type: 'AssignmentStatement';
+  targets: Expression[];
+  init: Expression[];
+}
+
+/** CfxLua compound assignment such as `count += 1`. */
+export interface CompoundAssignmentStatement extends BaseNode {
+  type: 'CompoundAssignmentStatement';
+  operator: string;
+  target: Expression;
+  value: Expression;
+}
+
+export interface CallStatement extends BaseNode {
+  type: 'CallStatement';
+  expression: CallExpression;
+}
+
+export interface DoStatement extends BaseNode {
+  type: 'DoStatement';
+  body: Statement[];
+}
+
+export interface WhileStatement extends BaseNode {
+  type: 'WhileStatement';
+  condition: Expression;
+  body: Statement[];
+  /** Range of the `while ... do` header. */
+  header: SourceRange;
+}
+
+export interface RepeatStatement extends BaseNode {
+  type: 'RepeatStatement';
+  body: Statement[];
+  condition: Expression;
+  /** Range of the `repeat` keyword. */
+  header: SourceRange;
+}
+
+export interface IfClause extends BaseNode {
+  type: 'IfClause' | 'ElseifClause' | 'ElseClause';
+  condition?: Expression;
+  body: Statement[];
+}
+
+export interface IfStatement extends BaseNode {
+  type: 'IfStatement';
+  clauses: IfClause[];
+}
+
+export interface NumericForStatement extends BaseNode {
+  type: 'NumericForStatement';
+  variable: Identifier;
+  start: Expression;
+  end: Expression;
+  step?: Expression;
+  body: Statement[];
+}
+
+export interface GenericForStatement extends BaseNode {
+  type: 'GenericForStatement';
+  variables: Identifier[];
+  iterators: Expression[];
+  body: Statement[];
+}
+
+export interface FunctionDeclaration extends BaseNode {
+  type: 'FunctionDeclaration';
+  identifier: Identifier | MemberExpression;
+  isLocal: boolean;
+  parameters: Identifier[];
+  isVararg: boolean;
+  body: Statement[];
+}
+
+export interface ReturnStatement extends BaseNode {
+  type: 'ReturnStatement';
+  arguments: Expression[];
+}
+
+export interface BreakStatement extends BaseNode {
+  type: 'BreakStatement';
+}
+
+export interface GotoStatement extends BaseNode {
+  type: 'GotoStatement';
+  label: Identifier;
+}
+
+export interface LabelStatement extends BaseNode {
+  type: 'LabelStatement';
+  label: Identifier;
+}
+
+export type Statement =
+  | LocalStatement
+  | AssignmentStatement
+  | CompoundAssignmentStatement
+  | CallStatement
+  | DoStatement
+  | WhileStatement
+  | RepeatStatement
+  | IfStatement
+  | NumericForStatement
+  | GenericForStatement
+  | FunctionDeclaration
+  | ReturnStatement
+  | BreakStatement
+  | GotoStatement
+  | LabelStatement;
+
+export type Node = Chunk | Statement | Expression | IfClause | TableField;
+
+export type FunctionNode = FunctionDeclaration | FunctionExpression;
+
+export type AstVisitor = {
+  /** Return `false` to skip the children of `node`. */
+  enter?(node: Node, parent: Node | undefined): boolean | void;
+  leave?(node: Node, parent: Node | undefined): void;
+};
+
+export function forEachChild(node: Node, callback: (child: Node) => void): void {
+  const visitAll = (nodes: Node[]) => nodes.forEach(callback);
+
+  switch (node.type) {
+    case 'Chunk':
+    case 'DoStatement':
+      visitAll(node.body);
+      break;
+    case 'LocalStatement':
+      visitAll(node.names);
+      visitAll(node.init);
+      break;
+    case 'AssignmentStatement':
+      visitAll(node.targets);
+      visitAll(node.init);
+      break;
+    case 'CompoundAssignmentStatement':
+      callback(node.target);
+      callback(node.value);
+      break;
+    case 'CallStatement':
+      callback(node.expression);
+      break;
+    case 'WhileStatement':
+      callback(node.condition);
+      visitAll(node.body);
+      break;
+    case 'RepeatStatement':
+      visitAll(node.body);
+      callback(node.condition);
+      break;
+    case 'IfStatement':
+      visitAll(node.clauses);
+      break;
+    case 'IfClause':
+    case 'ElseifClause':
+    case 'ElseClause':
+      if (node.condition) {
+        callback(node.condition);
+      }
+      visitAll(node.body);
+      break;
+    case 'NumericForStatement':
+      callback(node.variable);
+      callback(node.start);
+      callback(node.end);
+      if (node.step) {
+        callback(node.step);
+      }
+      visitAll(node.body);
+      break;
+    case 'GenericForStatement':
+      visitAll(node.variables);
+      visitAll(node.iterators);
+      visitAll(node.body);
+      break;
+    case 'FunctionDeclaration':
+      callback(node.identifier);
+      visitAll(node.parameters);
+      visitAll(node.body);
+      break;
+    case 'FunctionExpression':
+      visitAll(node.parameters);
+      visitAll(node.body);
+      break;
+    case 'ReturnStatement':
+      visitAll(node.arguments);
+      break;
+    case 'GotoStatement':
+    case 'LabelStatement':
+      callback(node.label);
+      break;
+    case 'VectorLiteral':
+      callback(node.callee);
+      visitAll(node.components);
+      break;
+    case 'TableConstructor':
+      visitAll(node.fields);
+      break;
+    case 'TableKey':
+      callback(node.key);
+      callback(node.value);
+      break;
+    case 'TableKeyString':
+      callback(node.key);
+      callback(node.value);
+      break;
+    case 'TableValue':
+      callback(node.value);
+      break;
+    case 'BinaryExpression':
+      callback(node.left);
+      callback(node.right);
+      break;
+    case 'UnaryExpression':
+      callback(node.argument);
+      break;
+    case 'MemberExpression':
+      callback(node.base);
+      callback(node.identifier);
+      break;
+    case 'IndexExpression':
+      callback(node.base);
+      callback(node.index);
+      break;
+    case 'CallExpression':
+      callback(node.base);
+      visitAll(node.arguments);
+      break;
+    case 'ParenthesizedExpression':
+      callback(node.expression);
+      break;
+    default:
+      break;
+  }
+}
+
+export function walkAst(root: Node, visitor: AstVisitor, parent?: Node): void {
+  if (visitor.enter?.(root, parent) === false) {
+    return;
+  }
+  forEachChild(root, (child) => walkAst(child, visitor, root));
+  visitor.leave?.(root, parent);
+}
+
+/** Returns the statement list of a node that owns a block, if any. */
+export function getBlockBody(node: Node): Statement[] | undefined {
+  switch (node.type) {
+    case 'Chunk':
+    case 'DoStatement':
+    case 'WhileStatement':
+    case 'RepeatStatement':
+    case 'IfClause':
+    case 'ElseifClause':
+    case 'ElseClause':
+    case 'NumericForStatement':
+    case 'GenericForStatement':
+    case 'FunctionDeclaration':
+    case 'FunctionExpression':
+      return node.body;
+    default:
+      return undefined;
+  }
+}
+
+export function isFunctionNode(node: Node): node is FunctionNode {
+  return node.type === 'FunctionDeclaration' || node.type === 'FunctionExpression';
+}
+
+/**
+ * Returns the dotted name of an identifier or member chain, e.g.
+ * `Citizen.Wait` or `lib.callback.await`. Method access keeps its `:`.
+ */
+export function getQualifiedName(expression: Expression): string | undefined {
+  if (expression.type === 'Identifier') {
+    return expression.name;
+  }
+
+  if (expression.type === 'MemberExpression') {
+    const baseName = getQualifiedName(expression.base);
+    return baseName === undefined
+      ? undefined
+      : `${baseName}${expression.indexer}${expression.identifier.name}`;
+  }
+
+  return undefined;
+}
+
+/** The name a member chain starts from, e.g. `lib` for `lib.callback.await`. */
+export function getRootIdentifier(expression: Expression): Identifier | undefined {
+  let current = expression;
+  while (current.type === 'MemberExpression') {
+    current = current.base;
+  }
+  return current.type === 'Identifier' ? current : undefined;
+}
+
+export function getCalleeName(call: CallExpression): string | undefined {
+  return getQualifiedName(call.base);
+}
+
+export function getStringArgument(call: CallExpression, index: number): StringLiteral | undefined {
+  const argument = call.arguments[index];
+  return argument?.type === 'StringLiteral' ? argument : undefined;
+}
+
+export function containsPosition(range: SourceRange, offset: number): boolean {
+  return range.start.offset <= offset && offset <= range.end.offset;
+}
@@ -0,0 +1,453 @@
+import { Comment, SourcePosition, SourceRange } from './lua-ast';
+
+export type TokenType =
+  | 'Name'
+  | 'Keyword'
+  | 'Number'
+  | 'String'
+  | 'Hash'
+  | 'Symbol'
+  | 'EOF';
+
+export interface Token {
+  type: TokenType;
+  value: string;
+  raw: string;
+  range: SourceRange;
+}
+
+export class LuaSyntaxError extends Error {
+  constructor(message: string, readonly range: SourceRange) {
+    super(message);
+    this.name = 'LuaSyntaxError';
+  }
+}
+
+const KEYWORDS = new Set([
+  'and',
+  'break',
+  'do',
+  'else',
+  'elseif',
+  'end',
+  'false',
+  'for',
+  'function',
+  'goto',
+  'if',
+  'in',
+  'local',
+  'nil',
+  'not',
+  'or',
+  'repeat',
+  'return',
+  'then',
+  'true',
+  'until',
+  'while',
+]);
+
+// Longest symbols first so `...` wins over `..` and `<<=` over `<<`.
+const SYMBOLS = [
+  '...',
+  '<<=',
+  '>>=',
+  '..',
+  '::',
+  '==',
+  '~=',
+  '<=',
+  '>=',
+  '<<',
+  '>>',
+  '//',
+  '+=',
+  '-=',
+  '*=',
+  '/=',
+  '&=',
+  '|=',
+  '^=',
+  '+',
+  '-',
+  '*',
+  '/',
+  '%',
+  '^',
+  '#',
+  '&',
+  '~',
+  '|',
+  '<',
+  '>',
+  '=',
+  '(',
+  ')',
+  '{',
+  '}',
+  '[',
+  ']',
+  ';',
+  ':',
+  ',',
+  '.',
+  '?',
+];
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+  a: '\x07',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  v: '\v',
+  '\\': '\\',
+  '"': '"',
+  "'": "'",
+  '\n': '\n',
+};
+
+const HEX_NUMBER = /0[xX][0-9a-fA-F]*\.?[0-9a-fA-F]*(?:[pP][+-]?[0-9]+)?/y;
+const DECIMAL_NUMBER = /(?:[0-9]+\.?[0-9]*|\.[0-9]+)(?:[eE][+-]?[0-9]+)?/y;
+const UTF8_ESCAPE = /\{([0-9a-fA-F]+)\}/y;
+const DECIMAL_ESCAPE = /[0-9]{1,3}/y;
+
+export interface LexResult {
+  tokens: Token[];
+  comments: Comment[];
+}
+
+class LuaLexer {
+  private index = 0;
+  private line = 0;
+  private lineStart = 0;
+  private readonly tokens: Token[] = [];
+  private readonly comments: Comment[] = [];
+
+  constructor(private readonly text: string) {}
+
+  run(): LexResult {
+    this.skipShebang();
+
+    while (true) {
+      this.skipWhitespaceAndComments();
+      if (this.index >= this.text.length) {
+        const position = this.position();
+        this.tokens.push({
+          type: 'EOF',
+          value: '<eof>',
+          raw: '',
+          range: { start: position, end: position },
+        });
+        break;
+      }
+      this.tokens.push(this.readToken());
+    }
+
+    return { tokens: this.tokens, comments: this.comments };
+  }
+
+  private position(): SourcePosition {
+    return {
+      line: this.line,
+      character: this.index - this.lineStart,
+      offset: this.index,
+    };
+  }
+
+  private advance(count = 1): void {
+    for (let i = 0; i < count && this.index < this.text.length; i++) {
+      const char = this.text[this.index];
+      this.index++;
+      if (char === '\n') {
+        this.line++;
+        this.lineStart = this.index;
+      }
+    }
+  }
+
+  private error(message: string, start: SourcePosition): never {
+    throw new LuaSyntaxError(message, { start, end: this.position() });
+  }
+
+  private skipShebang(): void {
+    if (this.text.startsWith('#')) {
+      while (this.index < this.text.length && this.text[this.index] !== '\n') {
+        this.advance();
+      }
+    }
+  }
+
+  private skipWhitespaceAndComments(): void {
+    while (this.index < this.text.length) {
+      const char = this.text[this.index];
+
+      if (/\s/.test(char)) {
+        this.advance();
+        continue;
+      }
+
+      if (char === '-' && this.text[this.index + 1] === '-') {
+        this.readComment();
+        continue;
+      }
+
+      break;
+    }
+  }
+
+  private readComment(): void {
+    const start = this.position();
+    this.advance(2);
+
+    const level = this.longBracketLevel(this.index);
+    if (level >= 0) {
+      const value = this.readLongBracket(level, start, 'comment');
+      this.comments.push({
+        type: 'Comment',
+        value,
+        raw: this.text.slice(start.offset, this.index),
+        long: true,
+        range: { start, end: this.position() },
+      });
+      return;
+    }
+
+    const valueStart = this.index;
+    while (this.index < this.text.length && this.text[this.index] !== '\n') {
+      this.advance();
+    }
+    this.comments.push({
+      type: 'Comment',
+      value: this.text.slice(valueStart, this.index).replace(/\r$/, ''),
+      raw: this.text.slice(start.offset, this.index),
+      long: false,
+      range: { start, end: this.position() },
+    });
+  }
+
+  /** Returns the `=` level of a long bracket opening at `index`, or -1. */
+  private longBracketLevel(index: number): number {
+    if (this.text[index] !== '[') {
+      return -1;
+    }
+
+    let cursor = index + 1;
+    while (this.text[cursor] === '=') {
+      cursor++;
+    }
+
+    return this.text[cursor] === '[' ? cursor - index - 1 : -1;
+  }
+
+  private readLongBracket(level: number, start: SourcePosition, what: string): string {
+    this.advance(level + 2);
+    if (this.text[this.index] === '\r') {
+      this.advance();
+    }
+    if (this.text[this.index] === '\n') {
+      this.advance();
+    }
+
+    const closing = `]${'='.repeat(level)}]`;
+    const closeIndex = this.text.indexOf(closing, this.index);
+    if (closeIndex === -1) {
+      while (this.index < this.text.length) {
+        this.advance();
+      }
+      this.error(`Unfinished long ${what}`, start);
+    }
+
+    const value = this.text.slice(this.index, closeIndex);
+    this.advance(closeIndex + closing.length - this.index);
+    return value;
+  }
+
+  private readToken(): Token {
+    const start = this.position();
+    const char = this.text[this.index];
+
+    if (/[A-Za-z_]/.test(char)) {
+      let cursor = this.index;
+      while (cursor < this.text.length && /[A-Za-z0-9_]/.test(this.text[cursor])) {
+        cursor++;
+      }
+      const word = this.text.slice(this.index, cursor);
+      this.advance(cursor - this.index);
+      return this.token(KEYWORDS.has(word) ? 'Keyword' : 'Name', word, start);
+    }
+
+    if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(this.text[this.index + 1] ?? ''))) {
+      return this.readNumber(start);
+    }
+
+    if (char === '"' || char === "'") {
+      return this.readString(start, char);
+    }
+
+    if (char === '`') {
+      return this.readHash(start);
+    }
+
+    if (char === '[') {
+      const level = this.longBracketLevel(this.index);
+      if (level >= 0) {
+        const value = this.readLongBracket(level, start, 'string');
+        return this.token('String', value, start);
+      }
+    }
+
+    for (const symbol of SYMBOLS) {
+      if (this.text.startsWith(symbol, this.index)) {
+        this.advance(symbol.length);
+        return this.token('Symbol', symbol, start);
+      }
+    }
+
+    this.advance();
+    this.error(`Unexpected character '${char}'`, start);
+  }
+
+  private matchAt(pattern: RegExp, index = this.index): RegExpExecArray | null {
+    pattern.lastIndex = index;
+    return pattern.exec(this.text);
+  }
+
+  private token(type: TokenType, value: string, start: SourcePosition): Token {
+    return {
+      type,
+      value,
+      raw: this.text.slice(start.offset, this.index),
+      range: { start, end: this.position() },
+    };
+  }
+
+  private readNumber(start: SourcePosition): Token {
+    const match = this.matchAt(HEX_NUMBER) ?? this.matchAt(DECIMAL_NUMBER);
+
+    if (!match || /[A-Za-z_]/.test(this.text[this.index + match[0].length] ?? '')) {
+      this.advance(match ? match[0].length : 1);
+      this.error('Malformed number', start);
+    }
+
+    this.advance(match[0].length);
+    return this.token('Number', match[0], start);
+  }
+
+  private readString(start: SourcePosition, delimiter: string): Token {
+    this.advance();
+    let value = '';
+
+    while (true) {
+      if (this.index >= this.text.length || this.text[this.index] === '\n') {
+        this.error('Unfinished string', start);
+      }
+
+      const char = this.text[this.index];
+      if (char === delimiter) {
+        this.advance();
+        break;
+      }
+
+      if (char !== '\\') {
+        value += char;
+        this.advance();
+        continue;
+      }
+
+      value += this.readEscape(start);
+    }
+
+    return this.token('String', value, start);
+  }
+
+  private readEscape(start: SourcePosition): string {
+    const next = this.text[this.index + 1];
+
+    if (next === undefined) {
+      this.advance();
+      this.error('Unfinished string', start);
+    }
+
+    if (next in SIMPLE_ESCAPES) {
+      this.advance(2);
+      return SIMPLE_ESCAPES[next];
+    }
+
+    if (next === '\r') {
+      this.advance(this.text[this.index + 2] === '\n' ? 3 : 2);
+      return '\n';
+    }
+
+    if (next === 'z') {
+      this.advance(2);
+      while (this.index < this.text.length && /\s/.test(this.text[this.index])) {
+        this.advance();
+      }
+      return '';
+    }
+
+    if (next === 'x') {
+      const hex = this.text.slice(this.index + 2, this.index + 4);
+      if (!/^[0-9a-fA-F]{2}$/.test(hex)) {
+        this.advance(2);
+        this.error('Invalid hexadecimal escape sequence', start);
+      }
+      this.advance(4);
+      return String.fromCharCode(parseInt(hex, 16));
+    }
+
+    if (next === 'u') {
+      const match = this.matchAt(UTF8_ESCAPE, this.index + 2);
+      if (!match) {
+        this.advance(2);
+        this.error('Invalid UTF-8 escape sequence', start);
+      }
+      this.advance(2 + match[0].length);
+      return String.fromCodePoint(Math.min(parseInt(match[1], 16), 0x10ffff));
+    }
+
+    if (/[0-9]/.test(next)) {
+      const digits = this.matchAt(DECIMAL_ESCAPE, this.index + 1)![0];
+      this.advance(1 + digits.length);
+      return String.fromCharCode(parseInt(digits, 10));
+    }
+
+    this.advance(2);
+    this.error(`Invalid escape sequence '\\${next}'`, start);
+  }
+
+  private readHash(start: SourcePosition): Token {
+    this.advance();
+    const closeIndex = this.text.indexOf('`', this.index);
+    const newlineIndex = this.text.indexOf('\n', this.index);
+
+    if (closeIndex === -1 || (newlineIndex !== -1 && newlineIndex < closeIndex)) {
+      this.error('Unfinished hash literal', start);
+    }
+
+    const value = this.text.slice(this.index, closeIndex);
+    this.advance(closeIndex + 1 - this.index);
+    return this.token('Hash', value, start);
+  }
+}
+
+export function lexLua(text: string): LexResult {
+  return new LuaLexer(text).run();
+}
+
+export function parseNumericLiteral(raw: string): number {
+  if (/^0[xX]/.test(raw)) {
+    const [mantissa, exponent] = raw.slice(2).split(/[pP]/);
+    const [whole, fraction = ''] = mantissa.split('.');
+    let value = whole ? parseInt(whole, 16) : 0;
+    for (let i = 0; i < fraction.length; i++) {
+      value += parseInt(fraction[i], 16) / Math.pow(16, i + 1);
+    }
+    return exponent === undefined ? value : value * Math.pow(2, parseInt(exponent, 10));
+  }
+
+  return parseFloat(raw);
+}
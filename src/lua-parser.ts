@@ -0,0 +1,690 @@
+import {
+  Chunk,
+  Comment,
+  Expression,
+  FunctionExpression,
+  Identifier,
+  IfClause,
+  MemberExpression,
+  SourcePosition,
+  SourceRange,
+  Statement,
+  TableField,
+} from './lua-ast';
+import { lexLua, LuaSyntaxError, parseNumericLiteral, Token } from './lua-lexer';
+
+export { LuaSyntaxError } from './lua-lexer';
+
+export interface LuaParseResult {
+  ast?: Chunk;
+  comments: Comment[];
+  error?: LuaSyntaxError;
+}
+
+/** Calls to these globals are parsed as CfxLua vector literals. */
+export const VECTOR_CONSTRUCTORS = new Set([
+  'vector2',
+  'vector3',
+  'vector4',
+  'vec',
+  'vec2',
+  'vec3',
+  'vec4',
+  'quat',
+]);
+
+const COMPOUND_OPERATORS = new Set(['+=', '-=', '*=', '/=', '<<=', '>>=', '&=', '|=', '^=']);
+
+// Left and right binding power for each binary operator (Lua 5.4 precedence).
+const BINARY_PRIORITY: Record<string, [number, number]> = {
+  or: [1, 1],
+  and: [2, 2],
+  '<': [3, 3],
+  '>': [3, 3],
+  '<=': [3, 3],
+  '>=': [3, 3],
+  '~=': [3, 3],
+  '==': [3, 3],
+  '|': [4, 4],
+  '~': [5, 5],
+  '&': [6, 6],
+  '<<': [7, 7],
+  '>>': [7, 7],
+  '..': [9, 8],
+  '+': [10, 10],
+  '-': [10, 10],
+  '*': [11, 11],
+  '/': [11, 11],
+  '//': [11, 11],
+  '%': [11, 11],
+  '^': [14, 13],
+};
+
+const UNARY_PRIORITY = 12;
+const UNARY_OPERATORS = new Set(['not', '-', '#', '~']);
+const BLOCK_END_KEYWORDS = new Set(['end', 'else', 'elseif', 'until']);
+
+class LuaParser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parseChunk(comments: Comment[]): Chunk {
+    const body = this.parseBlock();
+    const eof = this.current();
+    if (eof.type !== 'EOF') {
+      this.unexpected(eof);
+    }
+
+    return {
+      type: 'Chunk',
+      body,
+      comments,
+      range: { start: this.tokens[0].range.start, end: eof.range.end },
+    };
+  }
+
+  private current(): Token {
+    return this.tokens[this.index];
+  }
+
+  private peek(offset = 1): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private previousEnd(): SourcePosition {
+    return this.tokens[Math.max(0, this.index - 1)].range.end;
+  }
+
+  private next(): Token {
+    const token = this.current();
+    if (token.type !== 'EOF') {
+      this.index++;
+    }
+    return token;
+  }
+
+  private check(value: string): boolean {
+    const token = this.current();
+    return (token.type === 'Symbol' || token.type === 'Keyword') && token.value === value;
+  }
+
+  private consume(value: string): boolean {
+    if (this.check(value)) {
+      this.next();
+      return true;
+    }
+    return false;
+  }
+
+  private expect(value: string, opener?: Token): Token {
+    if (this.check(value)) {
+      return this.next();
+    }
+
+    const token = this.current();
+    const suffix =
+      opener && opener.range.start.line !== token.range.start.line
+        ? ` (to close '${opener.value}' at line ${opener.range.start.line + 1})`
+        : '';
+    throw new LuaSyntaxError(`'${value}' expected near '${token.raw || token.value}'${suffix}`, token.range);
+  }
+
+  private unexpected(token: Token): never {
+    throw new LuaSyntaxError(`Unexpected symbol near '${token.raw || token.value}'`, token.range);
+  }
+
+  private rangeFrom(start: SourcePosition): SourceRange {
+    return { start, end: this.previousEnd() };
+  }
+
+  private parseIdentifier(): Identifier {
+    const token = this.current();
+    if (token.type !== 'Name') {
+      throw new LuaSyntaxError(`<name> expected near '${token.raw || token.value}'`, token.range);
+    }
+    this.next();
+    return { type: 'Identifier', name: token.value, range: token.range };
+  }
+
+  private isBlockEnd(): boolean {
+    const token = this.current();
+    return token.type === 'EOF' || (token.type === 'Keyword' && BLOCK_END_KEYWORDS.has(token.value));
+  }
+
+  private parseBlock(): Statement[] {
+    const body: Statement[] = [];
+
+    while (!this.isBlockEnd()) {
+      if (this.check('return')) {
+        body.push(this.parseReturn());
+        break;
+      }
+
+      const statement = this.parseStatement();
+      if (statement) {
+        body.push(statement);
+      }
+    }
+
+    return body;
+  }
+
+  private parseStatement(): Statement | undefined {
+    const token = this.current();
+    const start = token.range.start;
+
+    if (token.type === 'Symbol') {
+      if (token.value === ';') {
+        this.next();
+        return undefined;
+      }
+      if (token.value === '::') {
+        this.next();
+        const label = this.parseIdentifier();
+        this.expect('::');
+        return { type: 'LabelStatement', label, range: this.rangeFrom(start) };
+      }
+    }
+
+    if (token.type === 'Keyword') {
+      switch (token.value) {
+        case 'if':
+          return this.parseIf();
+        case 'while': {
+          this.next();
+          const condition = this.parseExpression();
+          this.expect('do');
+          const header = this.rangeFrom(start);
+          const body = this.parseBlock();
+          this.expect('end', token);
+          return { type: 'WhileStatement', condition, body, header, range: this.rangeFrom(start) };
+        }
+        case 'do': {
+          this.next();
+          const body = this.parseBlock();
+          this.expect('end', token);
+          return { type: 'DoStatement', body, range: this.rangeFrom(start) };
+        }
+        case 'for':
+          return this.parseFor();
+        case 'repeat': {
+          this.next();
+          const header = token.range;
+          const body = this.parseBlock();
+          this.expect('until', token);
+          const condition = this.parseExpression();
+          return { type: 'RepeatStatement', body, condition, header, range: this.rangeFrom(start) };
+        }
+        case 'function': {
+          this.next();
+          const identifier = this.parseFunctionName();
+          const fn = this.parseFunctionBody(start, token);
+          return {
+            type: 'FunctionDeclaration',
+            identifier,
+            isLocal: false,
+            parameters: fn.parameters,
+            isVararg: fn.isVararg,
+            body: fn.body,
+            range: fn.range,
+          };
+        }
+        case 'local':
+          return this.parseLocal();
+        case 'break':
+          this.next();
+          return { type: 'BreakStatement', range: token.range };
+        case 'goto': {
+          this.next();
+          const label = this.parseIdentifier();
+          return { type: 'GotoStatement', label, range: this.rangeFrom(start) };
+        }
+        default:
+          break;
+      }
+    }
+
+    return this.parseExpressionStatement();
+  }
+
+  private parseReturn(): Statement {
+    const start = this.next().range.start;
+    const args = this.isBlockEnd() || this.check(';') ? [] : this.parseExpressionList();
+    this.consume(';');
+    return { type: 'ReturnStatement', arguments: args, range: this.rangeFrom(start) };
+  }
+
+  private parseIf(): Statement {
+    const ifToken = this.next();
+    const start = ifToken.range.start;
+    const clauses: IfClause[] = [];
+
+    let clauseStart = start;
+    let clauseType: IfClause['type'] = 'IfClause';
+    while (true) {
+      const condition = this.parseExpression();
+      this.expect('then');
+      const body = this.parseBlock();
+      clauses.push({ type: clauseType, condition, body, range: this.rangeFrom(clauseStart) });
+
+      if (this.check('elseif')) {
+        clauseStart = this.next().range.start;
+        clauseType = 'ElseifClause';
+        continue;
+      }
+      break;
+    }
+
+    if (this.check('else')) {
+      const elseStart = this.next().range.start;
+      const body = this.parseBlock();
+      clauses.push({ type: 'ElseClause', body, range: this.rangeFrom(elseStart) });
+    }
+
+    this.expect('end', ifToken);
+    return { type: 'IfStatement', clauses, range: this.rangeFrom(start) };
+  }
+
+  private parseFor(): Statement {
+    const forToken = this.next();
+    const start = forToken.range.start;
+    const first = this.parseIdentifier();
+
+    if (this.consume('=')) {
+      const startValue = this.parseExpression();
+      this.expect(',');
+      const endValue = this.parseExpression();
+      const step = this.consume(',') ? this.parseExpression() : undefined;
+      this.expect('do');
+      const body = this.parseBlock();
+      this.expect('end', forToken);
+      return {
+        type: 'NumericForStatement',
+        variable: first,
+        start: startValue,
+        end: endValue,
+        step,
+        body,
+        range: this.rangeFrom(start),
+      };
+    }
+
+    const variables = [first];
+    while (this.consume(',')) {
+      variables.push(this.parseIdentifier());
+    }
+    this.expect('in');
+    const iterators = this.parseExpressionList();
+    this.expect('do');
+    const body = this.parseBlock();
+    this.expect('end', forToken);
+    return { type: 'GenericForStatement', variables, iterators, body, range: this.rangeFrom(start) };
+  }
+
+  private parseLocal(): Statement {
+    const localToken = this.next();
+    const start = localToken.range.start;
+
+    if (this.check('function')) {
+      const functionToken = this.next();
+      const identifier = this.parseIdentifier();
+      const fn = this.parseFunctionBody(start, functionToken);
+      return {
+        type: 'FunctionDeclaration',
+        identifier,
+        isLocal: true,
+        parameters: fn.parameters,
+        isVararg: fn.isVararg,
+        body: fn.body,
+        range: fn.range,
+      };
+    }
+
+    const names: Identifier[] = [];
+    do {
+      const name = this.parseIdentifier();
+      if (this.consume('<')) {
+        name.attribute = this.parseIdentifier().name;
+        this.expect('>');
+        name.range = this.rangeFrom(name.range.start);
+      }
+      names.push(name);
+    } while (this.consume(','));
+
+    let init: Expression[] = [];
+    let unpack = false;
+    if (this.consume('=')) {
+      init = this.parseExpressionList();
+    } else if (this.consume('in')) {
+      init = [this.parseExpression()];
+      unpack = true;
+    }
+
+    return { type: 'LocalStatement', names, init, unpack, range: this.rangeFrom(start) };
+  }
+
+  private parseFunctionName(): Identifier | MemberExpression {
+    let name: Identifier | MemberExpression = this.parseIdentifier();
+
+    while (this.check('.') || this.check(':')) {
+      const indexer = this.next().value as '.' | ':';
+      const identifier = this.parseIdentifier();
+      name = {
+        type: 'MemberExpression',
+        base: name,
+        indexer,
+        identifier,
+        safe: false,
+        range: { start: name.range.start, end: identifier.range.end },
+      };
+      if (indexer === ':') {
+        break;
+      }
+    }
+
+    return name;
+  }
+
+  private parseFunctionBody(start: SourcePosition, opener: Token): FunctionExpression {
+    this.expect('(');
+    const parameters: Identifier[] = [];
+    let isVararg = false;
+
+    if (!this.check(')')) {
+      do {
+        if (this.consume('...')) {
+          isVararg = true;
+          break;
+        }
+        parameters.push(this.parseIdentifier());
+      } while (this.consume(','));
+    }
+
+    this.expect(')');
+    const body = this.parseBlock();
+    this.expect('end', opener);
+    return { type: 'FunctionExpression', parameters, isVararg, body, range: this.rangeFrom(start) };
+  }
+
+  private parseExpressionStatement(): Statement {
+    const start = this.current().range.start;
+    const expression = this.parseSuffixedExpression();
+
+    if (this.check('=') || this.check(',')) {
+      const targets = [expression];
+      while (this.consume(',')) {
+        targets.push(this.parseSuffixedExpression());
+      }
+      targets.forEach((target) => this.assertAssignable(target));
+      this.expect('=');
+      const init = this.parseExpressionList();
+      return { type: 'AssignmentStatement', targets, init, range: this.rangeFrom(start) };
+    }
+
+    const token = this.current();
+    if (token.type === 'Symbol' && COMPOUND_OPERATORS.has(token.value)) {
+      this.assertAssignable(expression);
+      this.next();
+      const value = this.parseExpression();
+      return {
+        type: 'CompoundAssignmentStatement',
+        operator: token.value.slice(0, -1),
+        target: expression,
+        value,
+        range: this.rangeFrom(start),
+      };
+    }
+
+    if (expression.type !== 'CallExpression') {
+      throw new LuaSyntaxError('Syntax error: expected assignment or function call', expression.range);
+    }
+
+    return { type: 'CallStatement', expression, range: this.rangeFrom(start) };
+  }
+
+  private assertAssignable(expression: Expression): void {
+    if (
+      expression.type !== 'Identifier' &&
+      expression.type !== 'MemberExpression' &&
+      expression.type !== 'IndexExpression'
+    ) {
+      throw new LuaSyntaxError('Syntax error: cannot assign to this expression', expression.range);
+    }
+  }
+
+  private parseExpressionList(): Expression[] {
+    const expressions = [this.parseExpression()];
+    while (this.consume(',')) {
+      expressions.push(this.parseExpression());
+    }
+    return expressions;
+  }
+
+  private parseExpression(limit = 0): Expression {
+    const start = this.current().range.start;
+    const token = this.current();
+    let left: Expression;
+
+    if ((token.type === 'Keyword' || token.type === 'Symbol') && UNARY_OPERATORS.has(token.value)) {
+      this.next();
+      const argument = this.parseExpression(UNARY_PRIORITY);
+      left = { type: 'UnaryExpression', operator: token.value, argument, range: this.rangeFrom(start) };
+    } else {
+      left = this.parseSimpleExpression();
+    }
+
+    while (true) {
+      const operator = this.current();
+      const priority =
+        operator.type === 'Symbol' || operator.type === 'Keyword'
+          ? BINARY_PRIORITY[operator.value]
+          : undefined;
+      if (!priority || priority[0] <= limit) {
+        break;
+      }
+
+      this.next();
+      const right = this.parseExpression(priority[1]);
+      left = {
+        type: 'BinaryExpression',
+        operator: operator.value,
+        left,
+        right,
+        range: this.rangeFrom(start),
+      };
+    }
+
+    return left;
+  }
+
+  private parseSimpleExpression(): Expression {
+    const token = this.current();
+    const range = token.range;
+
+    switch (token.type) {
+      case 'Number':
+        this.next();
+        return { type: 'NumericLiteral', value: parseNumericLiteral(token.value), raw: token.raw, range };
+      case 'String':
+        this.next();
+        return { type: 'StringLiteral', value: token.value, raw: token.raw, range };
+      case 'Hash':
+        this.next();
+        return { type: 'HashLiteral', value: token.value, raw: token.raw, range };
+      case 'Keyword':
+        switch (token.value) {
+          case 'nil':
+            this.next();
+            return { type: 'NilLiteral', range };
+          case 'true':
+          case 'false':
+            this.next();
+            return { type: 'BooleanLiteral', value: token.value === 'true', range };
+          case 'function':
+            this.next();
+            return this.parseFunctionBody(range.start, token);
+          default:
+            break;
+        }
+        break;
+      case 'Symbol':
+        if (token.value === '...') {
+          this.next();
+          return { type: 'VarargLiteral', range };
+        }
+        if (token.value === '{') {
+          return this.parseTable();
+        }
+        break;
+      default:
+        break;
+    }
+
+    return this.parseSuffixedExpression();
+  }
+
+  private parsePrimaryExpression(): Expression {
+    const token = this.current();
+
+    if (token.type === 'Name') {
+      return this.parseIdentifier();
+    }
+
+    if (this.check('(')) {
+      const start = this.next().range.start;
+      const expression = this.parseExpression();
+      this.expect(')', token);
+      return { type: 'ParenthesizedExpression', expression, range: this.rangeFrom(start) };
+    }
+
+    this.unexpected(token);
+  }
+
+  private parseSuffixedExpression(): Expression {
+    const start = this.current().range.start;
+    let expression = this.parsePrimaryExpression();
+
+    while (true) {
+      let safe = false;
+      if (this.check('?') && ['.', '[', ':'].includes(this.peek().value)) {
+        this.next();
+        safe = true;
+        // `a?.[k]` is accepted alongside `a?[k]`.
+        if (this.check('.') && this.peek().value === '[') {
+          this.next();
+        }
+      }
+
+      const token = this.current();
+      if (this.check('.') || this.check(':')) {
+        this.next();
+        const identifier = this.parseIdentifier();
+        const member: MemberExpression = {
+          type: 'MemberExpression',
+          base: expression,
+          indexer: token.value as '.' | ':',
+          identifier,
+          safe,
+          range: this.rangeFrom(start),
+        };
+        expression = member;
+        if (member.indexer === ':') {
+          expression = this.parseCall(member, start);
+        }
+        continue;
+      }
+
+      if (this.check('[')) {
+        this.next();
+        const index = this.parseExpression();
+        this.expect(']', token);
+        expression = { type: 'IndexExpression', base: expression, index, safe, range: this.rangeFrom(start) };
+        continue;
+      }
+
+      if (safe) {
+        this.unexpected(token);
+      }
+
+      if (this.check('(') || this.check('{') || token.type === 'String') {
+        expression = this.parseCall(expression, start);
+        continue;
+      }
+
+      return expression;
+    }
+  }
+
+  private parseCall(base: Expression, start: SourcePosition): Expression {
+    const token = this.current();
+    let args: Expression[];
+
+    if (token.type === 'String') {
+      this.next();
+      args = [{ type: 'StringLiteral', value: token.value, raw: token.raw, range: token.range }];
+    } else if (this.check('{')) {
+      args = [this.parseTable()];
+    } else {
+      this.expect('(');
+      args = this.check(')') ? [] : this.parseExpressionList();
+      this.expect(')', token);
+
+      if (base.type === 'Identifier' && VECTOR_CONSTRUCTORS.has(base.name)) {
+        return { type: 'VectorLiteral', callee: base, components: args, range: this.rangeFrom(start) };
+      }
+    }
+
+    return { type: 'CallExpression', base, arguments: args, range: this.rangeFrom(start) };
+  }
+
+  private parseTable(): Expression {
+    const open = this.next();
+    const start = open.range.start;
+    const fields: TableField[] = [];
+
+    while (!this.check('}')) {
+      const fieldStart = this.current().range.start;
+
+      if (this.check('[')) {
+        this.next();
+        const key = this.parseExpression();
+        this.expect(']');
+        this.expect('=');
+        const value = this.parseExpression();
+        fields.push({ type: 'TableKey', key, value, range: this.rangeFrom(fieldStart) });
+      } else if (this.current().type === 'Name' && this.peek().value === '=' && this.peek().type === 'Symbol') {
+        const key = this.parseIdentifier();
+        this.next();
+        const value = this.parseExpression();
+        fields.push({ type: 'TableKeyString', key, value, range: this.rangeFrom(fieldStart) });
+      } else {
+        const value = this.parseExpression();
+        fields.push({ type: 'TableValue', value, range: this.rangeFrom(fieldStart) });
+      }
+
+      if (!this.consume(',') && !this.consume(';')) {
+        break;
+      }
+    }
+
+    this.expect('}', open);
+    return { type: 'TableConstructor', fields, range: this.rangeFrom(start) };
+  }
+}
+
+export function parseLua(text: string): LuaParseResult {
+  let comments: Comment[] = [];
+
+  try {
+    const lexed = lexLua(text);
+    comments = lexed.comments;
+    const ast = new LuaParser(lexed.tokens).parseChunk(comments);
+    return { ast, comments };
+  } catch (error) {
+    if (error instanceof LuaSyntaxError) {
+      return { comments, error };
+    }
+    throw error;
+  }
+}
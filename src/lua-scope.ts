@@ -0,0 +1,301 @@
+import {
+  Chunk,
+  Expression,
+  FunctionNode,
+  Identifier,
+  Node,
+  Statement,
+} from './lua-ast';
+
+export type BindingKind = 'local' | 'local-function' | 'parameter' | 'for-variable' | 'self';
+
+export interface Binding {
+  name: string;
+  kind: BindingKind;
+  /** Declaring identifier; undefined for the implicit `self` of methods. */
+  identifier?: Identifier;
+  /** Value bound at declaration, e.g. the function of a `local function`. */
+  value?: Expression | FunctionNode;
+  scope: Scope;
+  references: Reference[];
+}
+
+export interface Scope {
+  node: Node;
+  parent?: Scope;
+  /** Nearest enclosing function, undefined at chunk level. */
+  functionNode?: FunctionNode;
+  /** Every binding declared directly in this scope, in source order. */
+  declarations: Binding[];
+}
+
+export interface Reference {
+  identifier: Identifier;
+  binding?: Binding;
+  isWrite: boolean;
+  /** True for the name of a global `function Name()` declaration. */
+  declaresFunction: boolean;
+  /** True when the binding lives outside the function that uses it. */
+  isUpvalue: boolean;
+  scope: Scope;
+}
+
+export interface ScopeAnalysis {
+  chunkScope: Scope;
+  references: Reference[];
+  /** References that resolve to no local binding. */
+  globalReferences: Reference[];
+  getReference(identifier: Identifier): Reference | undefined;
+  getBinding(identifier: Identifier): Binding | undefined;
+}
+
+class ScopeResolver {
+  readonly references: Reference[] = [];
+  private readonly referenceByIdentifier = new Map<Identifier, Reference>();
+  private readonly bindingByIdentifier = new Map<Identifier, Binding>();
+  // Names currently visible in each scope; later declarations shadow earlier ones.
+  private readonly visible = new Map<Scope, Map<string, Binding>>();
+
+  analyze(chunk: Chunk): ScopeAnalysis {
+    const chunkScope = this.createScope(chunk, undefined, undefined);
+    this.visitBlock(chunk.body, chunkScope);
+
+    return {
+      chunkScope,
+      references: this.references,
+      globalReferences: this.references.filter((reference) => !reference.binding),
+      getReference: (identifier) => this.referenceByIdentifier.get(identifier),
+      getBinding: (identifier) => this.bindingByIdentifier.get(identifier),
+    };
+  }
+
+  private createScope(node: Node, parent: Scope | undefined, functionNode: FunctionNode | undefined): Scope {
+    const scope: Scope = { node, parent, functionNode, declarations: [] };
+    this.visible.set(scope, new Map());
+    return scope;
+  }
+
+  private declare(
+    scope: Scope,
+    name: string,
+    kind: BindingKind,
+    identifier?: Identifier,
+    value?: Expression | FunctionNode
+  ): Binding {
+    const binding: Binding = { name, kind, identifier, value, scope, references: [] };
+    scope.declarations.push(binding);
+    this.visible.get(scope)!.set(name, binding);
+    if (identifier) {
+      this.bindingByIdentifier.set(identifier, binding);
+    }
+    return binding;
+  }
+
+  private lookup(scope: Scope, name: string): Binding | undefined {
+    for (let current: Scope | undefined = scope; current; current = current.parent) {
+      const binding = this.visible.get(current)!.get(name);
+      if (binding) {
+        return binding;
+      }
+    }
+    return undefined;
+  }
+
+  private reference(identifier: Identifier, scope: Scope, isWrite: boolean, declaresFunction = false): void {
+    const binding = this.lookup(scope, identifier.name);
+    const reference: Reference = {
+      identifier,
+      binding,
+      isWrite,
+      declaresFunction,
+      isUpvalue: !!binding && binding.scope.functionNode !== scope.functionNode,
+      scope,
+    };
+    binding?.references.push(reference);
+    this.references.push(reference);
+    this.referenceByIdentifier.set(identifier, reference);
+  }
+
+  private visitBlock(body: Statement[], scope: Scope): void {
+    body.forEach((statement) => this.visitStatement(statement, scope));
+  }
+
+  private visitStatement(statement: Statement, scope: Scope): void {
+    switch (statement.type) {
+      case 'LocalStatement':
+        statement.init.forEach((expression) => this.visitExpression(expression, scope));
+        statement.names.forEach((name, index) => {
+          const value = statement.unpack ? undefined : statement.init[index];
+          this.declare(scope, name.name, 'local', name, value);
+        });
+        break;
+      case 'AssignmentStatement':
+        statement.init.forEach((expression) => this.visitExpression(expression, scope));
+        statement.targets.forEach((target) => this.visitTarget(target, scope));
+        break;
+      case 'CompoundAssignmentStatement':
+        this.visitExpression(statement.value, scope);
+        this.visitTarget(statement.target, scope);
+        break;
+      case 'CallStatement':
+        this.visitExpression(statement.expression, scope);
+        break;
+      case 'DoStatement':
+        this.visitBlock(statement.body, this.createScope(statement, scope, scope.functionNode));
+        break;
+      case 'WhileStatement':
+        this.visitExpression(statement.condition, scope);
+        this.visitBlock(statement.body, this.createScope(statement, scope, scope.functionNode));
+        break;
+      case 'RepeatStatement': {
+        // The `until` condition can see locals declared in the loop body.
+        const bodyScope = this.createScope(statement, scope, scope.functionNode);
+        this.visitBlock(statement.body, bodyScope);
+        this.visitExpression(statement.condition, bodyScope);
+        break;
+      }
+      case 'IfStatement':
+        statement.clauses.forEach((clause) => {
+          if (clause.condition) {
+            this.visitExpression(clause.condition, scope);
+          }
+          this.visitBlock(clause.body, this.createScope(clause, scope, scope.functionNode));
+        });
+        break;
+      case 'NumericForStatement': {
+        this.visitExpression(statement.start, scope);
+        this.visitExpression(statement.end, scope);
+        if (statement.step) {
+          this.visitExpression(statement.step, scope);
+        }
+        const loopScope = this.createScope(statement, scope, scope.functionNode);
+        this.declare(loopScope, statement.variable.name, 'for-variable', statement.variable);
+        this.visitBlock(statement.body, loopScope);
+        break;
+      }
+      case 'GenericForStatement': {
+        statement.iterators.forEach((expression) => this.visitExpression(expression, scope));
+        const loopScope = this.createScope(statement, scope, scope.functionNode);
+        statement.variables.forEach((variable) =>
+          this.declare(loopScope, variable.name, 'for-variable', variable)
+        );
+        this.visitBlock(statement.body, loopScope);
+        break;
+      }
+      case 'FunctionDeclaration':
+        if (statement.isLocal && statement.identifier.type === 'Identifier') {
+          // `local function f` is visible inside its own body.
+          this.declare(scope, statement.identifier.name, 'local-function', statement.identifier, statement);
+        } else if (statement.identifier.type === 'Identifier') {
+          this.reference(statement.identifier, scope, true, true);
+        } else {
+          this.visitExpression(statement.identifier, scope);
+        }
+        this.visitFunction(statement, scope);
+        break;
+      case 'ReturnStatement':
+        statement.arguments.forEach((expression) => this.visitExpression(expression, scope));
+        break;
+      default:
+        break;
+    }
+  }
+
+  private visitTarget(target: Expression, scope: Scope): void {
+    if (target.type === 'Identifier') {
+      this.reference(target, scope, true);
+    } else {
+      this.visitExpression(target, scope);
+    }
+  }
+
+  private visitFunction(fn: FunctionNode, scope: Scope): void {
+    const functionScope = this.createScope(fn, scope, fn);
+
+    if (
+      fn.type === 'FunctionDeclaration' &&
+      fn.identifier.type === 'MemberExpression' &&
+      fn.identifier.indexer === ':'
+    ) {
+      this.declare(functionScope, 'self', 'self');
+    }
+
+    fn.parameters.forEach((parameter) =>
+      this.declare(functionScope, parameter.name, 'parameter', parameter)
+    );
+    this.visitBlock(fn.body, functionScope);
+  }
+
+  private visitExpression(expression: Expression, scope: Scope): void {
+    switch (expression.type) {
+      case 'Identifier':
+        this.reference(expression, scope, false);
+        break;
+      case 'FunctionExpression':
+        this.visitFunction(expression, scope);
+        break;
+      case 'MemberExpression':
+        this.visitExpression(expression.base, scope);
+        break;
+      case 'IndexExpression':
+        this.visitExpression(expression.base, scope);
+        this.visitExpression(expression.index, scope);
+        break;
+      case 'CallExpression':
+        this.visitExpression(expression.base, scope);
+        expression.arguments.forEach((argument) => this.visitExpression(argument, scope));
+        break;
+      case 'VectorLiteral':
+        this.reference(expression.callee, scope, false);
+        expression.components.forEach((component) => this.visitExpression(component, scope));
+        break;
+      case 'TableConstructor':
+        expression.fields.forEach((field) => {
+          if (field.type === 'TableKey') {
+            this.visitExpression(field.key, scope);
+          }
+          this.visitExpression(field.value, scope);
+        });
+        break;
+      case 'BinaryExpression':
+        this.visitExpression(expression.left, scope);
+        this.visitExpression(expression.right, scope);
+        break;
+      case 'UnaryExpression':
+        this.visitExpression(expression.argument, scope);
+        break;
+      case 'ParenthesizedExpression':
+        this.visitExpression(expression.expression, scope);
+        break;
+      default:
+        break;
+    }
+  }
+}
+
+export function analyzeScopes(chunk: Chunk): ScopeAnalysis {
+  return new ScopeResolver().analyze(chunk);
+}
+
+/**
+ * Finds a `local function` with the reference's name that is declared later in
+ * a scope enclosing the reference, i.e. a local the code meant to call but
+ * cannot see yet.
+ */
+export function findLaterLocalFunction(reference: Reference): Binding | undefined {
+  const offset = reference.identifier.range.start.offset;
+
+  for (let scope: Scope | undefined = reference.scope; scope; scope = scope.parent) {
+    const binding = scope.declarations.find(
+      (declaration) =>
+        declaration.kind === 'local-function' &&
+        declaration.name === reference.identifier.name &&
+        declaration.identifier!.range.start.offset > offset
+    );
+    if (binding) {
+      return binding;
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,184 @@
+import { DocumentationCache, FunctionDoc, ParameterDoc, ReturnDoc } from './documentation-types';
+
+/** Workspace folder, relative to its root, that LuaLS definition files are written to. */
+export const LUALS_META_DIR = '.jericofx/meta';
+
+/** Second line of every generated file; files without it are never overwritten or deleted. */
+export const LUALS_META_MARKER = '-- Generated by JericoFX Lua Tools from its documentation cache. Do not edit.';
+
+/** Native types as LuaLS knows them. Handles are integers; unknown types are written as they are. */
+const LUALS_TYPES: Record<string, string> = {
+  int: 'integer',
+  long: 'integer',
+  float: 'number',
+  double: 'number',
+  bool: 'boolean',
+  'char*': 'string',
+  'const char*': 'string',
+  hash: 'integer|string',
+  any: 'any',
+  void: 'nil',
+  object: 'integer',
+  func: 'function',
+  entity: 'integer',
+  ped: 'integer',
+  vehicle: 'integer',
+  player: 'integer',
+  cam: 'integer',
+  blip: 'integer',
+  pickup: 'integer',
+  interior: 'integer',
+  fireid: 'integer',
+  scrhandle: 'integer',
+  vector2: 'vector2',
+  vector3: 'vector3',
+  vector4: 'vector4',
+};
+
+// Descriptions the parsers fill in when a source has none.
+const PLACEHOLDER_DESCRIPTION =
+  /^(No description available|(Native )?[Ff]unction from .+|This native does not have an official description\.)$/;
+
+const LUA_KEYWORDS = new Set([
+  'and', 'break', 'do', 'else', 'elseif', 'end', 'false', 'for', 'function', 'goto', 'if', 'in',
+  'local', 'nil', 'not', 'or', 'repeat', 'return', 'then', 'true', 'until', 'while',
+]);
+
+const FUNCTION_NAME = /^[A-Za-z_]\w*(\.[A-Za-z_]\w*)*(:[A-Za-z_]\w*)?$/;
+
+/**
+ * Writes every documented function as a LuaLS `---@meta` file, one per
+ * documentation source, keyed by file name. Tables that functions live in,
+ * such as `lib` for `lib.callback`, are declared with `---@class` first so
+ * LuaLS knows them as globals.
+ */
+export function generateLuaLsDefinitions(caches: ReadonlyMap<string, DocumentationCache>): Map<string, string> {
+  const files = new Map<string, string>();
+  const usedNames = new Set<string>();
+
+  for (const [sourceName, cache] of caches) {
+    const functions = Array.from(cache.functions.values())
+      .filter((func) => FUNCTION_NAME.test(func.name))
+      .sort((a, b) => a.name.localeCompare(b.name));
+    if (functions.length === 0) {
+      continue;
+    }
+
+    const lines = ['---@meta', LUALS_META_MARKER, `-- Source: ${sourceName}`, ''];
+    for (const table of getTables(functions)) {
+      lines.push(`---@class ${table}`, `${table} = {}`, '');
+    }
+    for (const func of functions) {
+      lines.push(...formatFunction(func), '');
+    }
+
+    files.set(getFileName(sourceName, usedNames), lines.join('\n'));
+  }
+
+  return files;
+}
+
+/** Every table a function name indexes, parents first: `a`, `a.b` for `a.b.c` and `a.b:c`. */
+function getTables(functions: FunctionDoc[]): string[] {
+  const tables = new Set<string>();
+  for (const { name } of functions) {
+    const parts = name.split(/[.:]/);
+    for (let length = 1; length < parts.length; length++) {
+      tables.add(parts.slice(0, length).join('.'));
+    }
+  }
+  return Array.from(tables).sort((a, b) => a.split('.').length - b.split('.').length || a.localeCompare(b));
+}
+
+function formatFunction(func: FunctionDoc): string[] {
+  const lines: string[] = [];
+
+  // The header and link CfxLua native definitions use, which `natives_cfxlua` sources read back.
+  if (func.namespace) {
+    lines.push(`---**\`${func.namespace}\`${func.side ? ` \`${func.side}\`` : ''}**`);
+  }
+  if (func.hash) {
+    lines.push(`---[Native Documentation](https://docs.fivem.net/natives/?_${func.hash})`);
+  }
+  if (func.description && !PLACEHOLDER_DESCRIPTION.test(func.description)) {
+    lines.push(...func.description.split(/\r?\n/).map((line) => `---${line}`));
+  }
+  if (func.deprecated) {
+    lines.push(`---@deprecated${func.deprecationNote ? ` ${toSingleLine(func.deprecationNote)}` : ''}`);
+  }
+
+  const parameters = func.parameters ?? [];
+  const names = parameters.map((parameter, index) => getParameterName(parameter, index));
+  parameters.forEach((parameter, index) => {
+    const optional = parameter.optional && parameter.name !== '...' ? '?' : '';
+    const description = parameter.description ? ` ${toSingleLine(parameter.description)}` : '';
+    lines.push(`---@param ${names[index]}${optional} ${toLuaLsType(parameter.type)}${description}`);
+  });
+  for (const ret of func.returns ?? []) {
+    if (toLuaLsType(ret.type) !== 'nil') {
+      lines.push(`---@return ${formatReturn(ret)}`);
+    }
+  }
+  for (const overload of func.overloads ?? []) {
+    const overloadParameters = overload.parameters
+      .map((parameter, index) => {
+        const optional = parameter.optional ? '?' : '';
+        return `${getParameterName(parameter, index)}${optional}: ${toLuaLsType(parameter.type)}`;
+      })
+      .join(', ');
+    const overloadReturns = (overload.returns ?? []).map((ret) => toLuaLsType(ret.type)).join(', ');
+    lines.push(`---@overload fun(${overloadParameters})${overloadReturns ? `: ${overloadReturns}` : ''}`);
+  }
+
+  lines.push(`function ${func.name}(${names.join(', ')}) end`);
+  return lines;
+}
+
+function formatReturn(ret: ReturnDoc): string {
+  return `${toLuaLsType(ret.type)}${ret.description ? ` # ${toSingleLine(ret.description)}` : ''}`;
+}
+
+function toLuaLsType(type: string | undefined): string {
+  if (!type || !type.trim()) {
+    return 'any';
+  }
+  const trimmed = type.trim();
+  const known = LUALS_TYPES[trimmed.toLowerCase()];
+  if (known) {
+    return known;
+  }
+  // Pointer parameters are passed, or returned, as the value they point to.
+  if (trimmed.endsWith('*')) {
+    return LUALS_TYPES[trimmed.slice(0, -1).trim().toLowerCase()] ?? 'any';
+  }
+  // Lua documentation types such as `table<string, number>|nil` are already LuaLS types.
+  return trimmed;
+}
+
+/** Parameter names that are Lua keywords or not identifiers at all get a usable name. */
+function getParameterName(parameter: ParameterDoc, index: number): string {
+  const { name } = parameter;
+  if (name === '...') {
+    return name;
+  }
+  const identifier = name.replace(/\W/g, '_');
+  if (!/^[A-Za-z_]/.test(identifier)) {
+    return `p${index}`;
+  }
+  return LUA_KEYWORDS.has(identifier) ? `_${identifier}` : identifier;
+}
+
+function toSingleLine(text: string): string {
+  return text.replace(/\s*\r?\n\s*/g, ' ').trim();
+}
+
+/** A file name from the source name; sources whose names differ only in punctuation get a number. */
+function getFileName(sourceName: string, usedNames: Set<string>): string {
+  const base = sourceName.replace(/[^\w.-]+/g, '_').replace(/^[._]+/, '') || 'source';
+  let fileName = `${base}.lua`;
+  for (let index = 2; usedNames.has(fileName.toLowerCase()); index++) {
+    fileName = `${base}_${index}.lua`;
+  }
+  usedNames.add(fileName.toLowerCase());
+  return fileName;
+}
@@ -0,0 +1,212 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  isExternalScript,
+  isManifestFile,
+  readManifest,
+  ResourceManifest,
+  scriptPatternToRegExp,
+} from './fxmanifest';
+import { AnalysisContext, getLineBounds, LintDiagnostic, LintFix, positionAt, report } from './lint-context';
+import { SourceRange, walkAst } from './lua-ast';
+import { findFiles } from './workspace-files';
+
+/** Directives whose values are paths or globs inside the resource. */
+const FILE_DIRECTIVES = new Set([
+  'client_script',
+  'client_scripts',
+  'server_script',
+  'server_scripts',
+  'shared_script',
+  'shared_scripts',
+  'file',
+  'files',
+  'ui_page',
+  'loadscreen',
+]);
+
+/** Used by the quick fixes; `cerulean` is the current manifest version. */
+const DEFAULT_FX_VERSION = 'cerulean';
+const DEFAULT_GAME = 'gta5';
+
+/** Checks an `fxmanifest.lua` or `__resource.lua`; other files are skipped. */
+export function checkManifest(context: AnalysisContext): LintDiagnostic[] {
+  const diagnostics: LintDiagnostic[] = [];
+  const { ast, filePath } = context;
+  if (!ast || !isManifestFile(filePath)) {
+    return diagnostics;
+  }
+
+  // The open file may differ from the saved manifest, so it is read from the parsed text.
+  const manifest = readManifest(ast, filePath);
+  const firstLine = getFirstLineRange(context);
+
+  if (manifest.legacy) {
+    const diagnostic = report(
+      context,
+      diagnostics,
+      'fxmanifest-legacy-resource',
+      firstLine,
+      `__resource.lua is deprecated. Rename it to fxmanifest.lua and declare fx_version and game.`
+    );
+    if (diagnostic) {
+      diagnostic.tags = ['deprecated'];
+    }
+  } else {
+    checkRequiredKeys(context, manifest, firstLine, diagnostics);
+  }
+
+  checkReferencedFiles(context, manifest, diagnostics);
+  checkDependencies(context, manifest, diagnostics);
+
+  return diagnostics;
+}
+
+/** Flags Lua 5.4 local attributes in resources whose manifest does not enable Lua 5.4. */
+export function checkLua54Syntax(context: AnalysisContext): LintDiagnostic[] {
+  const diagnostics: LintDiagnostic[] = [];
+  const { ast, resource } = context;
+  if (!ast || !resource || resource.lua54) {
+    return diagnostics;
+  }
+
+  walkAst(ast, {
+    enter(node) {
+      if (node.type === 'LocalStatement') {
+        for (const name of node.names) {
+          if (name.attribute) {
+            report(
+              context,
+              diagnostics,
+              'fivem-lua54-syntax',
+              name.range,
+              `<${name.attribute}> needs Lua 5.4, but the manifest of '${resource.name}' does not set lua54 'yes'.`
+            );
+          }
+        }
+      }
+    },
+  });
+
+  return diagnostics;
+}
+
+function checkRequiredKeys(
+  context: AnalysisContext,
+  manifest: ResourceManifest,
+  range: SourceRange,
+  diagnostics: LintDiagnostic[]
+): void {
+  if (!manifest.fxVersion) {
+    report(
+      context,
+      diagnostics,
+      'fxmanifest-missing-key',
+      range,
+      'The manifest does not declare fx_version, so the resource will not start.',
+      createInsertDirectiveFix(context, undefined, `fx_version '${DEFAULT_FX_VERSION}'`)
+    );
+  }
+
+  if (manifest.games.length === 0) {
+    const fxVersion = manifest.directives.find((directive) => directive.name === 'fx_version');
+    report(
+      context,
+      diagnostics,
+      'fxmanifest-missing-key',
+      range,
+      "The manifest does not declare game or games, e.g. game 'gta5'.",
+      createInsertDirectiveFix(context, fxVersion?.range, `game '${DEFAULT_GAME}'`)
+    );
+  }
+}
+
+function checkReferencedFiles(
+  context: AnalysisContext,
+  manifest: ResourceManifest,
+  diagnostics: LintDiagnostic[]
+): void {
+  let resourceFiles: string[] | undefined;
+
+  for (const directive of manifest.directives) {
+    if (!FILE_DIRECTIVES.has(directive.name)) {
+      continue;
+    }
+
+    for (const entry of directive.values) {
+      if (isExternalScript(entry.value) || /^(?:https?|nui):\/\//.test(entry.value)) {
+        continue;
+      }
+
+      let exists: boolean;
+      if (/[*?]/.test(entry.value)) {
+        resourceFiles ??= listFiles(manifest.directory);
+        const pattern = scriptPatternToRegExp(entry.value, manifest.directory);
+        exists = resourceFiles.some((file) => pattern.test(file));
+      } else {
+        exists = fs.existsSync(path.join(manifest.directory, entry.value));
+      }
+
+      if (!exists) {
+        report(
+          context,
+          diagnostics,
+          'fxmanifest-missing-file',
+          entry.range,
+          /[*?]/.test(entry.value)
+            ? `'${entry.value}' matches no file in the resource.`
+            : `'${entry.value}' does not exist in the resource.`
+        );
+      }
+    }
+  }
+}
+
+function checkDependencies(
+  context: AnalysisContext,
+  manifest: ResourceManifest,
+  diagnostics: LintDiagnostic[]
+): void {
+  const { knownResources } = context;
+  if (!knownResources) {
+    return;
+  }
+
+  for (const dependency of manifest.dependencies) {
+    // `/server:5181`, `/onesync` and similar entries are server requirements, not resources.
+    if (dependency.value.startsWith('/') || knownResources.has(dependency.value)) {
+      continue;
+    }
+    report(
+      context,
+      diagnostics,
+      'fxmanifest-unknown-dependency',
+      dependency.range,
+      `No resource named '${dependency.value}' was found in the workspace.`
+    );
+  }
+}
+
+/** Inserts a directive on its own line, after `after` or at the top of the file. */
+function createInsertDirectiveFix(context: AnalysisContext, after: SourceRange | undefined, directive: string): LintFix {
+  const { text } = context;
+  if (after) {
+    const line = getLineBounds(text, after.end.offset);
+    const position = positionAt(text, line.end);
+    return { title: `Add ${directive}`, edits: [{ range: { start: position, end: position }, newText: `\n${directive}` }] };
+  }
+
+  const start = positionAt(text, 0);
+  return { title: `Add ${directive}`, edits: [{ range: { start, end: start }, newText: `${directive}\n` }] };
+}
+
+/** The first line of the file, where diagnostics about the manifest as a whole are shown. */
+function getFirstLineRange(context: AnalysisContext): SourceRange {
+  const { text } = context;
+  return { start: positionAt(text, 0), end: positionAt(text, getLineBounds(text, 0).end) };
+}
+
+/** Every file in the resource as a forward-slash absolute path, to match against globs. */
+function listFiles(directory: string): string[] {
+  return findFiles(directory, () => true).map((file) => file.split(path.sep).join('/'));
+}
@@ -0,0 +1,135 @@
+import { FunctionDoc } from './documentation-types';
+import { AnalysisContext, LintDiagnostic, LintFix, report } from './lint-context';
+import { CallExpression, Chunk, containsPosition, getCalleeName, NumericLiteral, walkAst } from './lua-ast';
+
+/** A `Citizen.InvokeNative(0x..., ...)` call whose first argument is a number literal. */
+export interface InvokeNativeCall {
+  call: CallExpression;
+  hashArgument: NumericLiteral;
+  /** The hash in the form `normalizeNativeHash` returns. */
+  hash: string;
+}
+
+/**
+ * Hashes as `0x` and uppercase digits without leading zeros, so a literal
+ * matches the natives database however it is written. Number values lose
+ * precision above 2^53, so the source text is read instead.
+ */
+export function normalizeNativeHash(text: string): string | undefined {
+  try {
+    return `0x${BigInt.asUintN(64, BigInt(text.trim())).toString(16).toUpperCase()}`;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Game natives have 64-bit hashes and CFX natives 32-bit ones, so a natives
+ * database with only CFX natives, such as a CfxLua definition file, knows no
+ * game native hash.
+ */
+export function isGameNativeHash(hash: string): boolean {
+  return BigInt(hash) > 0xffffffffn;
+}
+
+/** Natives that record a hash, by normalized hash. */
+export function indexNativeHashes(functions: Iterable<FunctionDoc>): Map<string, FunctionDoc> {
+  const index = new Map<string, FunctionDoc>();
+  for (const func of functions) {
+    const hash = func.hash && normalizeNativeHash(func.hash);
+    if (hash && !index.has(hash)) {
+      index.set(hash, func);
+    }
+  }
+  return index;
+}
+
+export function findInvokeNativeCalls(ast: Chunk): InvokeNativeCall[] {
+  const calls: InvokeNativeCall[] = [];
+
+  walkAst(ast, {
+    enter(node) {
+      if (node.type !== 'CallExpression' || getCalleeName(node) !== 'Citizen.InvokeNative') {
+        return;
+      }
+      const [hashArgument] = node.arguments;
+      if (hashArgument?.type !== 'NumericLiteral') {
+        return;
+      }
+      const hash = normalizeNativeHash(hashArgument.raw);
+      if (hash) {
+        calls.push({ call: node, hashArgument, hash });
+      }
+    },
+  });
+
+  return calls;
+}
+
+/** The `Citizen.InvokeNative` call whose hash literal contains `offset`. */
+export function findInvokeNativeAt(ast: Chunk, offset: number): InvokeNativeCall | undefined {
+  return findInvokeNativeCalls(ast).find(({ hashArgument }) => containsPosition(hashArgument.range, offset));
+}
+
+/**
+ * Reports `Citizen.InvokeNative` hashes the loaded natives database does not
+ * know, when it covers game natives, and offers to call known ones by name.
+ */
+export function checkInvokeNativeCalls(context: AnalysisContext): LintDiagnostic[] {
+  const diagnostics: LintDiagnostic[] = [];
+  const { ast, lookupNativeHash, coversGameNatives } = context;
+  if (!ast || !lookupNativeHash) {
+    return diagnostics;
+  }
+
+  for (const { call, hashArgument, hash } of findInvokeNativeCalls(ast)) {
+    const native = lookupNativeHash(hash);
+    if (!native) {
+      if (!coversGameNatives) {
+        continue;
+      }
+      report(
+        context,
+        diagnostics,
+        'fivem-unknown-native-hash',
+        hashArgument.range,
+        `${hashArgument.raw} is not the hash of any native in the loaded natives database.`
+      );
+      continue;
+    }
+
+    report(
+      context,
+      diagnostics,
+      'fivem-invoke-native',
+      call.base.range,
+      `Citizen.InvokeNative(${hashArgument.raw}) calls ${native.name}; call the native by name.`,
+      createNamedCallFix(context, call, native.name)
+    );
+  }
+
+  return diagnostics;
+}
+
+/**
+ * `Citizen.InvokeNative(hash, a, b)` becomes `Name(a, b)`. Calls that pass
+ * `Citizen.PointerValue*` or `Citizen.ResultAs*` markers are left alone:
+ * named natives return pointer values and pick the result type themselves,
+ * so their arguments and results differ.
+ */
+function createNamedCallFix(context: AnalysisContext, call: CallExpression, name: string): LintFix | undefined {
+  const args = call.arguments.slice(1);
+  const usesMarkers = args.some(
+    (argument) => argument.type === 'CallExpression' && getCalleeName(argument)?.startsWith('Citizen.')
+  );
+  if (usesMarkers) {
+    return undefined;
+  }
+
+  const argumentText =
+    args.length > 0 ? context.text.slice(args[0].range.start.offset, args[args.length - 1].range.end.offset) : '';
+  return {
+    title: `Replace with ${name}(...)`,
+    edits: [{ range: call.range, newText: `${name}(${argumentText})` }],
+  };
+}
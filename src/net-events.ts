@@ -0,0 +1,146 @@
+import { ScriptSide, sidesOverlap } from './fxmanifest';
+import { Chunk, getCalleeName, getStringArgument, SourceRange, StringLiteral, walkAst } from './lua-ast';
+
+/** A string literal event name passed to a function that registers or triggers events. */
+export interface EventReference {
+  name: string;
+  kind: 'handler' | 'trigger';
+  /** Function that was called, e.g. `TriggerServerEvent`. */
+  callee: string;
+  /** Side of the file the call is in; unknown for files the manifest does not list. */
+  side: ScriptSide | undefined;
+  /** Side the event runs its handlers on. For handlers this is the side of the file. */
+  target: ScriptSide | undefined;
+  /** Range of the string literal, quotes included. */
+  range: SourceRange;
+  /** Range of the name between the quotes; unset when the literal spells it with escapes. */
+  nameRange?: SourceRange;
+  /** File that contains the call, when it is not the analyzed document. */
+  filePath?: string;
+}
+
+const HANDLER_FUNCTIONS = new Set(['RegisterNetEvent', 'RegisterServerEvent', 'AddEventHandler']);
+
+/** Where each trigger delivers its event; `local` stays on the side of the caller. */
+const TRIGGER_TARGETS: Record<string, 'client' | 'server' | 'local'> = {
+  TriggerServerEvent: 'server',
+  TriggerLatentServerEvent: 'server',
+  TriggerClientEvent: 'client',
+  TriggerLatentClientEvent: 'client',
+  TriggerEvent: 'local',
+};
+
+/**
+ * Events raised by FiveM itself or by the default resources that ship with
+ * every server, so handlers for them are expected to have no trigger in the
+ * workspace.
+ */
+const BUILTIN_EVENTS = new Set([
+  'onResourceStart',
+  'onResourceStarting',
+  'onResourceStop',
+  'onClientResourceStart',
+  'onClientResourceStop',
+  'onServerResourceStart',
+  'onServerResourceStop',
+  'onResourceListRefresh',
+  'playerConnecting',
+  'playerDropped',
+  'playerJoining',
+  'playerEnteredScope',
+  'playerLeftScope',
+  'gameEventTriggered',
+  'populationPedCreating',
+  'entityCreating',
+  'entityCreated',
+  'entityRemoved',
+  'explosionEvent',
+  'weaponDamageEvent',
+  'startProjectileEvent',
+  'ptFxEvent',
+  'giveWeaponEvent',
+  'removeWeaponEvent',
+  'removeAllWeaponsEvent',
+  'clearPedTasksEvent',
+  'respawnPlayerPedEvent',
+  'fireEvent',
+  'chatMessage',
+  'chat:addMessage',
+  'chat:addSuggestion',
+  'chat:removeSuggestion',
+  'chat:clear',
+  'playerSpawned',
+  'baseevents:onPlayerDied',
+  'baseevents:onPlayerKilled',
+  'baseevents:onPlayerWasted',
+  'baseevents:enteredVehicle',
+  'baseevents:leftVehicle',
+]);
+
+/** Collects the events a file registers and triggers, in source order. */
+export function collectEventReferences(ast: Chunk, side: ScriptSide | undefined): EventReference[] {
+  const references: EventReference[] = [];
+
+  walkAst(ast, {
+    enter(node) {
+      if (node.type !== 'CallExpression') {
+        return;
+      }
+      const callee = getCalleeName(node);
+      const name = getStringArgument(node, 0);
+      if (!callee || !name) {
+        return;
+      }
+
+      const location = { range: name.range, nameRange: getNameRange(name) };
+      if (HANDLER_FUNCTIONS.has(callee)) {
+        references.push({ name: name.value, kind: 'handler', callee, side, target: side, ...location });
+      } else if (callee in TRIGGER_TARGETS) {
+        const target = TRIGGER_TARGETS[callee];
+        references.push({
+          name: name.value,
+          kind: 'trigger',
+          callee,
+          side,
+          target: target === 'local' ? side : target,
+          ...location,
+        });
+      }
+    },
+  });
+
+  return references;
+}
+
+/** Handlers that receive the event `reference` names, or every handler of it when none is on that side. */
+export function findEventHandlers(reference: EventReference, references: EventReference[]): EventReference[] {
+  const handlers = references.filter((candidate) => candidate.kind === 'handler' && candidate.name === reference.name);
+  if (reference.kind === 'handler') {
+    return handlers;
+  }
+  const receiving = handlers.filter((handler) => isHandledOn(handler.target, reference.target));
+  return receiving.length > 0 ? receiving : handlers;
+}
+
+/** Whether FiveM or a default resource raises or handles the event. */
+export function isBuiltinEvent(name: string): boolean {
+  return BUILTIN_EVENTS.has(name) || name.startsWith('__cfx_');
+}
+
+/** Whether a handler on `handlerSide` receives events sent to `target`; shared and unknown sides match both. */
+export function isHandledOn(handlerSide: ScriptSide | undefined, target: ScriptSide | undefined): boolean {
+  return sidesOverlap(handlerSide, target);
+}
+
+function getNameRange({ raw, value, range }: StringLiteral): SourceRange | undefined {
+  // `'`, `"` or a long bracket such as `[==[`; the closing delimiter has the same length.
+  const delimiter = raw.startsWith('[') ? raw.indexOf('[', 1) + 1 : 1;
+  if (raw.slice(delimiter, raw.length - delimiter) !== value || range.start.line !== range.end.line) {
+    return undefined;
+  }
+  const { start, end } = range;
+  return {
+    start: { line: start.line, character: start.character + delimiter, offset: start.offset + delimiter },
+    end: { line: end.line, character: end.character - delimiter, offset: end.offset - delimiter },
+  };
+}
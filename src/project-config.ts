@@ -0,0 +1,333 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { RULE_SEVERITIES, RuleSeverity } from './config';
+import { DocumentationSource } from './documentation-types';
+import { Expression } from './lua-ast';
+import { parseLua } from './lua-parser';
+
+/** Checked in this order; the first one found in a directory wins. */
+export const PROJECT_CONFIG_FILES = ['.jericofx.json', 'jericofx.config.lua'];
+
+/** Contents of a single `.jericofx.json` or `jericofx.config.lua`. */
+export interface ProjectConfigFile {
+  /** Stop looking for configs in parent directories. */
+  root?: boolean;
+  rules?: Record<string, RuleSeverity>;
+  globals?: string[];
+  yieldingFunctions?: string[];
+  /** Glob patterns relative to the config file's directory. */
+  ignore?: string[];
+  documentationSources?: DocumentationSource[];
+}
+
+/** Every config from the outermost directory down to the file, merged. */
+export interface ResolvedProjectConfig {
+  /** Config files that contributed, outermost first. */
+  files: string[];
+  rules: Record<string, RuleSeverity>;
+  globals: string[];
+  yieldingFunctions: string[];
+  ignore: RegExp[];
+  documentationSources: DocumentationSource[];
+  errors: ProjectConfigError[];
+}
+
+export class ProjectConfigError extends Error {
+  constructor(message: string, readonly filePath: string) {
+    super(`${path.basename(filePath)}: ${message}`);
+    this.name = 'ProjectConfigError';
+  }
+}
+
+type LoadedConfig = { filePath: string; config?: ProjectConfigFile; error?: ProjectConfigError };
+
+/**
+ * Finds and merges the project config files that apply to a Lua file.
+ * Parsed files are cached per directory until `invalidate` is called.
+ */
+export class ProjectConfigLoader {
+  // `null` marks a directory that has no config file.
+  private readonly directories = new Map<string, LoadedConfig | null>();
+
+  /**
+   * `rootDir` is the workspace folder; configs above it are ignored.
+   * Without it the search continues up to the filesystem root.
+   */
+  resolve(filePath: string, rootDir?: string): ResolvedProjectConfig {
+    const resolved: ResolvedProjectConfig = {
+      files: [],
+      rules: {},
+      globals: [],
+      yieldingFunctions: [],
+      ignore: [],
+      documentationSources: [],
+      errors: [],
+    };
+
+    for (const loaded of this.collect(path.dirname(filePath), rootDir)) {
+      resolved.files.push(loaded.filePath);
+      if (loaded.error) {
+        resolved.errors.push(loaded.error);
+      }
+      if (loaded.config) {
+        mergeConfig(resolved, loaded.config, path.dirname(loaded.filePath));
+      }
+    }
+
+    return resolved;
+  }
+
+  isIgnored(filePath: string, config: ResolvedProjectConfig): boolean {
+    const normalized = filePath.split(path.sep).join('/');
+    return config.ignore.some((pattern) => pattern.test(normalized));
+  }
+
+  /** Whether `directory` has a config with `root: true`. */
+  isRootDirectory(directory: string): boolean {
+    return this.loadDirectory(path.resolve(directory))?.config?.root === true;
+  }
+
+  /** Forgets a changed config file, or everything when no path is given. */
+  invalidate(configPath?: string): void {
+    if (configPath) {
+      this.directories.delete(path.dirname(configPath));
+    } else {
+      this.directories.clear();
+    }
+  }
+
+  /** Configs that apply to `directory`, outermost first. */
+  private collect(directory: string, rootDir?: string): LoadedConfig[] {
+    const chain: LoadedConfig[] = [];
+    const root = rootDir ? path.resolve(rootDir) : undefined;
+
+    for (let current = path.resolve(directory); ; ) {
+      const loaded = this.loadDirectory(current);
+      if (loaded) {
+        chain.unshift(loaded);
+        if (loaded.config?.root) {
+          break;
+        }
+      }
+
+      const parent = path.dirname(current);
+      if (current === root || parent === current || (root && !isInside(parent, root))) {
+        break;
+      }
+      current = parent;
+    }
+
+    return chain;
+  }
+
+  private loadDirectory(directory: string): LoadedConfig | null {
+    const cached = this.directories.get(directory);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    let loaded: LoadedConfig | null = null;
+    for (const name of PROJECT_CONFIG_FILES) {
+      const filePath = path.join(directory, name);
+      if (fs.existsSync(filePath)) {
+        loaded = loadConfigFile(filePath);
+        break;
+      }
+    }
+
+    this.directories.set(directory, loaded);
+    return loaded;
+  }
+}
+
+function loadConfigFile(filePath: string): LoadedConfig {
+  try {
+    const text = fs.readFileSync(filePath, 'utf8');
+    const value = filePath.endsWith('.lua') ? evaluateLuaConfig(text, filePath) : JSON.parse(text);
+    return { filePath, config: validateConfig(value, filePath) };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      filePath,
+      error: error instanceof ProjectConfigError ? error : new ProjectConfigError(message, filePath),
+    };
+  }
+}
+
+/** Evaluates `return { ... }` made of literal values only. */
+function evaluateLuaConfig(text: string, filePath: string): unknown {
+  const { ast, error } = parseLua(text);
+  if (!ast) {
+    throw new ProjectConfigError(`${error?.message ?? 'syntax error'}`, filePath);
+  }
+
+  const last = ast.body[ast.body.length - 1];
+  if (last?.type !== 'ReturnStatement' || last.arguments.length !== 1) {
+    throw new ProjectConfigError('expected the file to end with `return { ... }`', filePath);
+  }
+  return evaluateLiteral(last.arguments[0], filePath);
+}
+
+function evaluateLiteral(expression: Expression, filePath: string): unknown {
+  switch (expression.type) {
+    case 'StringLiteral':
+    case 'NumericLiteral':
+    case 'BooleanLiteral':
+      return expression.value;
+    case 'NilLiteral':
+      return undefined;
+    case 'TableConstructor': {
+      // An empty table is read as a list; validateConfig accepts it where an object is expected.
+      if (expression.fields.every((field) => field.type === 'TableValue')) {
+        return expression.fields.map((field) => evaluateLiteral(field.value, filePath));
+      }
+
+      const result: Record<string, unknown> = {};
+      for (const field of expression.fields) {
+        if (field.type === 'TableKeyString') {
+          result[field.key.name] = evaluateLiteral(field.value, filePath);
+        } else if (field.type === 'TableKey' && field.key.type === 'StringLiteral') {
+          result[field.key.value] = evaluateLiteral(field.value, filePath);
+        } else {
+          throw new ProjectConfigError(
+            `mixed or non-string table keys are not supported (line ${field.range.start.line + 1})`,
+            filePath
+          );
+        }
+      }
+      return result;
+    }
+    default:
+      throw new ProjectConfigError(
+        `only literal values are supported (line ${expression.range.start.line + 1})`,
+        filePath
+      );
+  }
+}
+
+function validateConfig(value: unknown, filePath: string): ProjectConfigFile {
+  value = emptyListToObject(value);
+  if (!isRecord(value)) {
+    throw new ProjectConfigError('expected an object', filePath);
+  }
+
+  const config: ProjectConfigFile = {};
+
+  if (value.root !== undefined) {
+    if (typeof value.root !== 'boolean') {
+      throw new ProjectConfigError('`root` must be true or false', filePath);
+    }
+    config.root = value.root;
+  }
+
+  if (value.rules !== undefined) {
+    value.rules = emptyListToObject(value.rules);
+    if (!isRecord(value.rules)) {
+      throw new ProjectConfigError('`rules` must map rule ids to severities', filePath);
+    }
+    for (const [rule, severity] of Object.entries(value.rules)) {
+      if (!RULE_SEVERITIES.includes(severity as RuleSeverity)) {
+        throw new ProjectConfigError(
+          `rule '${rule}' has invalid severity '${severity}'; expected ${RULE_SEVERITIES.join(', ')}`,
+          filePath
+        );
+      }
+    }
+    config.rules = value.rules as Record<string, RuleSeverity>;
+  }
+
+  for (const key of ['globals', 'yieldingFunctions', 'ignore'] as const) {
+    const list = value[key];
+    if (list === undefined) {
+      continue;
+    }
+    if (!Array.isArray(list) || !list.every((item) => typeof item === 'string')) {
+      throw new ProjectConfigError(`\`${key}\` must be a list of strings`, filePath);
+    }
+    config[key] = list;
+  }
+
+  if (value.documentationSources !== undefined) {
+    const sources = value.documentationSources;
+    if (
+      !Array.isArray(sources) ||
+      !sources.every((source) => isRecord(source) && typeof source.name === 'string' && typeof source.url === 'string')
+    ) {
+      throw new ProjectConfigError('`documentationSources` entries need a `name` and `url`', filePath);
+    }
+    config.documentationSources = sources.map((source) => ({
+      type: 'lua_mixed',
+      enabled: true,
+      ...source,
+      // A local file such as `./natives.json` is relative to the config that names it.
+      url: /^(https?|file):\/\//.test(source.url) ? source.url : path.resolve(path.dirname(filePath), source.url),
+    })) as DocumentationSource[];
+  }
+
+  return config;
+}
+
+function mergeConfig(target: ResolvedProjectConfig, config: ProjectConfigFile, directory: string): void {
+  Object.assign(target.rules, config.rules);
+  target.globals.push(...(config.globals ?? []));
+  target.yieldingFunctions.push(...(config.yieldingFunctions ?? []));
+  target.ignore.push(...(config.ignore ?? []).map((pattern) => globToRegExp(pattern, directory)));
+
+  for (const source of config.documentationSources ?? []) {
+    // A nearer config replaces a source with the same name.
+    const index = target.documentationSources.findIndex((existing) => existing.name === source.name);
+    if (index >= 0) {
+      target.documentationSources[index] = source;
+    } else {
+      target.documentationSources.push(source);
+    }
+  }
+}
+
+/**
+ * Converts a gitignore-style glob to an absolute-path regex. Patterns
+ * without a slash match at any depth; a trailing slash matches a folder.
+ */
+export function globToRegExp(pattern: string, baseDir: string): RegExp {
+  let glob = pattern.trim();
+  if (glob.endsWith('/')) {
+    glob += '**';
+  }
+  if (!glob.includes('/')) {
+    glob = `**/${glob}`;
+  }
+  glob = glob.replace(/^\.?\//, '');
+
+  let source = '';
+  for (let index = 0; index < glob.length; index++) {
+    const char = glob[index];
+    if (char === '*' && glob[index + 1] === '*') {
+      const followedBySlash = glob[index + 2] === '/';
+      source += followedBySlash ? '(?:.*/)?' : '.*';
+      index += followedBySlash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  const base = path.resolve(baseDir).split(path.sep).join('/').replace(/\/$/, '');
+  const escapedBase = base.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`^${escapedBase}/${source}(?:/.*)?$`);
+}
+
+function isInside(child: string, parent: string): boolean {
+  const relative = path.relative(parent, child);
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+function emptyListToObject(value: unknown): unknown {
+  return Array.isArray(value) && value.length === 0 ? {} : value;
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
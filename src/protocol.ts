@@ -0,0 +1,71 @@
+import { ScriptSide } from './fxmanifest';
+
+/**
+ * Commands the language server runs through `workspace/executeCommand`.
+ * Clients other than VS Code can call them directly; folder arguments are
+ * URIs and default to the first workspace folder.
+ */
+export const SERVER_COMMANDS = {
+  /** `[uri]`: re-lints an open document. */
+  scanFile: 'jericofx.scanFile',
+  /** Lints every workspace Lua file and publishes the results. */
+  scanWorkspace: 'jericofx.scanWorkspace',
+  refreshDocumentation: 'jericofx.refreshDocumentation',
+  /** `[source]`: downloads a source that was just added to the settings. */
+  addDocumentationSource: 'jericofx.addDocumentationSource',
+  clearDocumentationCache: 'jericofx.clearDocumentationCache',
+  /** Returns a plain-text summary of the loaded documentation. */
+  debugDocumentation: 'jericofx.debugDocumentation',
+  /** `[folderUri?, targetPath?]`: writes a SARIF log, by default `jericofx.sarif` in the folder. */
+  exportSarif: 'jericofx.exportSarif',
+  /** `[folderUri?]`: records the current findings in the folder's baseline file. */
+  createBaseline: 'jericofx.createBaseline',
+  /** `[folderUri?]`: drops baseline entries for findings that no longer occur. */
+  pruneBaseline: 'jericofx.pruneBaseline',
+  /** `[hash]`: names from `hash_names` sources with that joaat hash; returns a `HashLookupResult`, or null for a value that is not a hash. */
+  reverseLookupHash: 'jericofx.reverseLookupHash',
+  /** `[folderUri?]`: writes the loaded documentation as LuaLS `---@meta` files; returns a `LuaLsDefinitionsResult`. */
+  generateLuaLsDefinitions: 'jericofx.generateLuaLsDefinitions',
+} as const;
+
+/** `jericofx/fileInfo` request: the resource and side of a file, e.g. for a status bar. */
+export const FILE_INFO_REQUEST = 'jericofx/fileInfo';
+
+export interface FileInfoParams {
+  uri: string;
+}
+
+/** Result of `jericofx/fileInfo`; the request returns null for files outside any resource. */
+export interface FileInfo {
+  resource: string;
+  manifest: string;
+  /** Null when the manifest does not load the file. */
+  side: ScriptSide | null;
+}
+
+/** Result of the `reverseLookupHash` command. */
+export interface HashLookupResult {
+  unsigned: number;
+  signed: number;
+  names: Array<{ name: string; source: string }>;
+}
+
+/** Result of the `generateLuaLsDefinitions` command. */
+export interface LuaLsDefinitionsResult {
+  /** Folder the files were written to. */
+  directory: string;
+  /** The same folder relative to the workspace folder, as `Lua.workspace.library` accepts it. */
+  library: string;
+  files: number;
+}
+
+/** Settings section read through `workspace/configuration`. */
+export const SETTINGS_SECTION = 'jericofxLuaTools';
+
+/** `initializationOptions` understood by the server. */
+export interface ServerInitializationOptions {
+  /** Folder for the documentation cache; defaults to the VS Code extension's storage. */
+  documentationCacheDir?: string;
+  /** Settings for clients that do not support `workspace/configuration`. */
+  settings?: Record<string, unknown>;
+}
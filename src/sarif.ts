@@ -0,0 +1,154 @@
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { getRuleDocsUrl, RULES } from './config';
+import { LintResult, LintSeverity } from './lint-engine';
+import { SourceRange } from './lua-ast';
+
+export const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+const SARIF_LEVELS: Record<LintSeverity, string> = {
+  error: 'error',
+  warning: 'warning',
+  info: 'note',
+  hint: 'note',
+};
+
+export interface SarifOptions {
+  /** Files are reported relative to this folder, as the `%SRCROOT%` base. */
+  rootDir: string;
+  toolVersion: string;
+}
+
+/**
+ * Builds a SARIF 2.1.0 log with one run. Findings hidden by
+ * `jericofx-disable` comments are kept as in-source suppressions, and
+ * baselined findings as external ones, when they are part of `results`.
+ */
+export function createSarifLog(results: readonly LintResult[], options: SarifOptions): object {
+  const ruleIndexes = new Map(RULES.map((rule, index) => [rule.id, index]));
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'jericofx-lint',
+            version: options.toolVersion,
+            informationUri: 'https://github.com/JericoFX/jericofx-lua-tools',
+            rules: RULES.map((rule) => ({
+              id: rule.id,
+              shortDescription: { text: rule.description },
+              helpUri: getRuleDocsUrl(rule.id),
+              defaultConfiguration: {
+                enabled: rule.defaultSeverity !== 'off',
+                level: rule.defaultSeverity === 'off' ? 'none' : SARIF_LEVELS[rule.defaultSeverity],
+              },
+              // GitHub code scanning lists rules tagged `security` as security alerts.
+              properties: { category: rule.category, ...(rule.category === 'security' ? { tags: ['security'] } : {}) },
+            })),
+          },
+        },
+        originalUriBaseIds: {
+          SRCROOT: { uri: toDirectoryUri(options.rootDir) },
+        },
+        columnKind: 'utf16CodeUnits',
+        results: results.flatMap(({ filePath, diagnostics }) => {
+          const artifactLocation = toArtifactLocation(filePath, options.rootDir);
+          return diagnostics.map((diagnostic) => ({
+            ruleId: diagnostic.ruleId,
+            ruleIndex: ruleIndexes.get(diagnostic.ruleId),
+            level: SARIF_LEVELS[diagnostic.severity],
+            message: { text: diagnostic.message },
+            locations: [
+              {
+                physicalLocation: { artifactLocation, region: toRegion(diagnostic.range) },
+              },
+            ],
+            // The flow that brought a value to the finding, ending at the finding itself.
+            ...(diagnostic.related
+              ? {
+                  codeFlows: [
+                    {
+                      threadFlows: [
+                        {
+                          locations: [...diagnostic.related, diagnostic].map(({ range, message }) => ({
+                            location: {
+                              physicalLocation: { artifactLocation, region: toRegion(range) },
+                              message: { text: message },
+                            },
+                          })),
+                        },
+                      ],
+                    },
+                  ],
+                }
+              : {}),
+            ...(diagnostic.fix
+              ? {
+                  fixes: [
+                    {
+                      description: { text: diagnostic.fix.title },
+                      artifactChanges: [
+                        {
+                          artifactLocation,
+                          replacements: diagnostic.fix.edits.map((edit) => ({
+                            deletedRegion: toRegion(edit.range),
+                            insertedContent: { text: edit.newText },
+                          })),
+                        },
+                      ],
+                    },
+                  ],
+                }
+              : {}),
+            ...(diagnostic.suppressedBy
+              ? {
+                  suppressions: [
+                    {
+                      kind: 'inSource',
+                      ...(diagnostic.suppressedBy.description
+                        ? { justification: diagnostic.suppressedBy.description }
+                        : {}),
+                    },
+                  ],
+                }
+              : {}),
+            ...(diagnostic.baselined
+              ? {
+                  baselineState: 'unchanged',
+                  suppressions: [{ kind: 'external', justification: 'Recorded in the baseline file' }],
+                }
+              : {}),
+          }));
+        }),
+      },
+    ],
+  };
+}
+
+/** SARIF regions are one-based; an empty range is an insertion point. */
+function toRegion(range: SourceRange) {
+  return {
+    startLine: range.start.line + 1,
+    startColumn: range.start.character + 1,
+    endLine: range.end.line + 1,
+    endColumn: range.end.character + 1,
+    charOffset: range.start.offset,
+    charLength: range.end.offset - range.start.offset,
+  };
+}
+
+function toArtifactLocation(filePath: string, rootDir: string) {
+  const relative = path.relative(rootDir, filePath);
+  if (relative.startsWith('..') || path.isAbsolute(relative)) {
+    return { uri: pathToFileURL(filePath).href };
+  }
+  return { uri: relative.split(path.sep).map(encodeURIComponent).join('/'), uriBaseId: 'SRCROOT' };
+}
+
+function toDirectoryUri(directory: string): string {
+  const uri = pathToFileURL(directory).href;
+  return uri.endsWith('/') ? uri : `${uri}/`;
+}
@@ -0,0 +1,333 @@
+import { AnalysisContext, LintDiagnostic, LintRelatedLocation, report } from './lint-context';
+import {
+  CallExpression,
+  Chunk,
+  Expression,
+  FunctionNode,
+  getCalleeName,
+  getStringArgument,
+  Identifier,
+  isFunctionNode,
+  Node,
+  StringLiteral,
+  walkAst,
+} from './lua-ast';
+import { Binding, ScopeAnalysis } from './lua-scope';
+
+/**
+ * Functions that hand out money, items or weapons in ESX, QBCore and
+ * ox_inventory. Matched on the method name, e.g. `xPlayer.addMoney` or
+ * `exports.ox_inventory:AddItem`.
+ */
+const REWARD_FUNCTIONS = new Set([
+  'addMoney',
+  'addAccountMoney',
+  'addInventoryItem',
+  'addWeapon',
+  'addItem',
+  'giveItem',
+  'AddMoney',
+  'AddItem',
+  'GiveItem',
+]);
+
+/** Calls that run a command or code built from their arguments. */
+const CODE_EXECUTION_FUNCTIONS = new Set([
+  'ExecuteCommand',
+  'load',
+  'loadstring',
+  'dofile',
+  'loadfile',
+  'os.execute',
+  'io.popen',
+]);
+
+/** Server natives that act on players or entities, which a handler should only reach after a check. */
+const PRIVILEGED_NATIVES = new Set([
+  'DropPlayer',
+  'SetEntityCoords',
+  'DeleteEntity',
+  'GiveWeaponToPed',
+  'RemoveAllPedWeapons',
+  'SetPedArmour',
+  'SetEntityHealth',
+  'SetPlayerRoutingBucket',
+  'SetEntityRoutingBucket',
+  'CreateVehicle',
+  'CreateVehicleServerSetter',
+  'CreatePed',
+  'CreateObject',
+  'CreateObjectNoOffset',
+]);
+
+/** Permission and distance checks, matched on the method name. `#(a - b)` counts as a distance check too. */
+const CHECK_FUNCTIONS = new Set([
+  'IsPlayerAceAllowed',
+  'IsPrincipalAceAllowed',
+  'HasPermission',
+  'hasPermission',
+  'GetPermission',
+  'getGroup',
+  'IsAdmin',
+  'isAdmin',
+  'Vdist',
+  'Vdist2',
+  'GetDistanceBetweenCoords',
+]);
+
+const HANDLER_REGISTRATIONS = new Set(['RegisterNetEvent', 'RegisterServerEvent', 'AddEventHandler']);
+
+interface NetEventHandler {
+  event: StringLiteral;
+  handler: FunctionNode;
+}
+
+/**
+ * Audits the handlers a server script registers for net events, which any
+ * client can trigger with arguments of its choosing.
+ */
+export function checkNetEventSecurity(context: AnalysisContext): LintDiagnostic[] {
+  const diagnostics: LintDiagnostic[] = [];
+  const { ast, scopes, side } = context;
+  if (!ast || !scopes || side !== 'server') {
+    return diagnostics;
+  }
+
+  for (const handler of findNetEventHandlers(ast, scopes)) {
+    checkHandler(context, scopes, handler, diagnostics);
+  }
+  return diagnostics;
+}
+
+/**
+ * Handlers passed to `RegisterNetEvent`, and to `AddEventHandler` for events
+ * the file registers as net events. Handlers given by the name of a local
+ * function are followed to that function.
+ */
+function findNetEventHandlers(ast: Chunk, scopes: ScopeAnalysis): NetEventHandler[] {
+  const netEvents = new Set<string>();
+  const registrations: { callee: string; event: StringLiteral; handler: Expression | undefined }[] = [];
+
+  walkAst(ast, {
+    enter(node) {
+      if (node.type !== 'CallExpression') {
+        return;
+      }
+      const callee = getCalleeName(node);
+      const event = getStringArgument(node, 0);
+      if (!event || !callee || !HANDLER_REGISTRATIONS.has(callee)) {
+        return;
+      }
+      if (callee !== 'AddEventHandler') {
+        netEvents.add(event.value);
+      }
+      registrations.push({ callee, event, handler: node.arguments[1] });
+    },
+  });
+
+  return registrations.flatMap(({ callee, event, handler }) => {
+    if (callee === 'AddEventHandler' && !netEvents.has(event.value)) {
+      return [];
+    }
+    const resolved = resolveFunction(handler, scopes);
+    return resolved ? [{ event, handler: resolved }] : [];
+  });
+}
+
+function resolveFunction(expression: Expression | undefined, scopes: ScopeAnalysis): FunctionNode | undefined {
+  if (expression?.type === 'FunctionExpression') {
+    return expression;
+  }
+  if (expression?.type === 'Identifier') {
+    const value = scopes.getReference(expression)?.binding?.value;
+    return value && isFunctionNode(value) ? value : undefined;
+  }
+  return undefined;
+}
+
+function checkHandler(
+  context: AnalysisContext,
+  scopes: ScopeAnalysis,
+  { event, handler }: NetEventHandler,
+  diagnostics: LintDiagnostic[]
+): void {
+  const input = new ClientInputTracker(scopes, handler);
+  let readsSource = false;
+  let checked = false;
+
+  for (const statement of handler.body) {
+    // Nodes are entered in source order, so `checked` only covers checks above a call.
+    walkAst(statement, {
+      enter(node) {
+        switch (node.type) {
+          case 'Identifier': {
+            const reference = scopes.getReference(node);
+            readsSource ||= node.name === 'source' && !!reference && !reference.binding;
+            break;
+          }
+          case 'LocalStatement':
+            node.names.forEach((name, index) => input.assign(name, node.init[index]));
+            break;
+          case 'AssignmentStatement':
+            node.targets.forEach((target, index) => {
+              if (target.type === 'Identifier') {
+                input.assign(target, node.init[index]);
+              }
+            });
+            break;
+          case 'UnaryExpression':
+            checked ||= node.operator === '#' && isSubtraction(node.argument);
+            break;
+          case 'CallExpression':
+            checked ||= CHECK_FUNCTIONS.has(getMethodName(node) ?? '');
+            checkCall(context, input, event, node, checked, diagnostics);
+            break;
+        }
+      },
+    });
+  }
+
+  if (!readsSource && handler.body.length > 0) {
+    report(
+      context,
+      diagnostics,
+      'fivem-handler-no-source',
+      event.range,
+      `The server handler for '${event.value}' never reads source, so it cannot tell which player sent the event.`
+    );
+  }
+}
+
+function checkCall(
+  context: AnalysisContext,
+  input: ClientInputTracker,
+  event: StringLiteral,
+  call: CallExpression,
+  checked: boolean,
+  diagnostics: LintDiagnostic[]
+): void {
+  const callee = getCalleeName(call);
+  const method = getMethodName(call);
+
+  if (method && REWARD_FUNCTIONS.has(method)) {
+    reportClientInput(
+      context,
+      input,
+      call,
+      'fivem-client-amount',
+      `The handler for '${event.value}' passes client input to ${method}. Exploiters can trigger the event with any amount or item, so work it out on the server.`,
+      diagnostics
+    );
+  }
+
+  if (callee && CODE_EXECUTION_FUNCTIONS.has(callee)) {
+    reportClientInput(
+      context,
+      input,
+      call,
+      'fivem-client-code-execution',
+      `${callee} runs client input in the handler for '${event.value}'. Any client can trigger the event and run ${
+        callee === 'ExecuteCommand' ? 'server commands' : 'code'
+      } of its choosing.`,
+      diagnostics
+    );
+  }
+
+  if (callee && PRIVILEGED_NATIVES.has(callee) && !checked) {
+    report(
+      context,
+      diagnostics,
+      'fivem-unchecked-privileged-native',
+      call.base.range,
+      `${callee} runs in the handler for '${event.value}' without a permission or distance check before it. Any client can trigger the event.`
+    );
+  }
+}
+
+/** Reports a call that receives client input, with the flow of every argument that carries it. */
+function reportClientInput(
+  context: AnalysisContext,
+  input: ClientInputTracker,
+  call: CallExpression,
+  ruleId: string,
+  message: string,
+  diagnostics: LintDiagnostic[]
+): void {
+  const flows = call.arguments.flatMap((argument) => input.trace(argument) ?? []);
+  if (flows.length === 0) {
+    return;
+  }
+  const diagnostic = report(context, diagnostics, ruleId, call.base.range, message);
+  if (diagnostic) {
+    diagnostic.related = flows;
+  }
+}
+
+/**
+ * Follows the values a client sends to a handler through the locals they are
+ * copied into. Every value computed from client input counts as client input.
+ */
+class ClientInputTracker {
+  private readonly flows = new Map<Binding, LintRelatedLocation[]>();
+
+  constructor(
+    private readonly scopes: ScopeAnalysis,
+    private readonly handler: FunctionNode
+  ) {
+    for (const parameter of handler.parameters) {
+      const binding = scopes.getBinding(parameter);
+      if (binding) {
+        this.flows.set(binding, [{ range: parameter.range, message: `'${parameter.name}' is sent by the client` }]);
+      }
+    }
+  }
+
+  /** Records what a local holds after an assignment; a value without client input clears it. */
+  assign(target: Identifier, value: Expression | undefined): void {
+    const binding = this.scopes.getBinding(target) ?? this.scopes.getReference(target)?.binding;
+    if (!binding) {
+      return;
+    }
+
+    const flow = value && this.trace(value);
+    if (flow) {
+      this.flows.set(binding, [...flow, { range: target.range, message: `'${target.name}' is assigned from it` }]);
+    } else {
+      this.flows.delete(binding);
+    }
+  }
+
+  /** How client input reaches `expression`, or undefined when it uses none. */
+  trace(expression: Expression): LintRelatedLocation[] | undefined {
+    let flow: LintRelatedLocation[] | undefined;
+
+    walkAst(expression, {
+      enter: (node: Node) => {
+        if (flow || isFunctionNode(node)) {
+          return false;
+        }
+        if (node.type === 'Identifier') {
+          const binding = this.scopes.getReference(node)?.binding;
+          flow = binding && this.flows.get(binding);
+        } else if (node.type === 'VarargLiteral' && this.handler.isVararg) {
+          flow = [{ range: node.range, message: '`...` is sent by the client' }];
+        }
+      },
+    });
+    return flow;
+  }
+}
+
+/** The name of the called function or method without its table, e.g. `addMoney` for `xPlayer.addMoney`. */
+function getMethodName(call: CallExpression): string | undefined {
+  const { base } = call;
+  if (base.type === 'Identifier') {
+    return base.name;
+  }
+  return base.type === 'MemberExpression' ? base.identifier.name : undefined;
+}
+
+function isSubtraction(expression: Expression): boolean {
+  const inner = expression.type === 'ParenthesizedExpression' ? expression.expression : expression;
+  return inner.type === 'BinaryExpression' && inner.operator === '-';
+}
@@ -0,0 +1,1218 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import {
+  CodeAction,
+  CodeActionKind,
+  createConnection,
+  Diagnostic,
+  DiagnosticSeverity,
+  DiagnosticTag,
+  DidChangeConfigurationNotification,
+  DidChangeWatchedFilesNotification,
+  ErrorCodes,
+  FileChangeType,
+  Hover,
+  InitializeResult,
+  Location,
+  MarkupKind,
+  MessageType,
+  Position,
+  ProposedFeatures,
+  Range,
+  ResponseError,
+  ShowMessageNotification,
+  TextDocumentEdit,
+  TextDocuments,
+  TextDocumentSyncKind,
+  TextEdit,
+  WorkspaceEdit,
+} from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { Baseline, BASELINE_FILE, BaselineSource } from './baseline';
+import {
+  DEFAULT_GLOBALS,
+  DEFAULT_YIELDING_FUNCTIONS,
+  getPackageVersion,
+  getRuleDocsUrl,
+  RuleSeverity,
+  WAIT_FUNCTIONS,
+} from './config';
+import { getDefaultDocumentationCacheFile } from './documentation-cache';
+import { DocumentationHost, DocumentationManager } from './documentation-manager';
+import {
+  LuaCompletionProvider,
+  LuaHoverProvider,
+  LuaSignatureHelpProvider,
+} from './documentation-providers';
+import { DocumentationSource } from './documentation-types';
+import { collectExports, ExportDeclaration, findExportCalls, getExportCompletionContext } from './exports';
+import { isManifestFile, MANIFEST_FILES, ManifestIndex, ScriptSide, sidesOverlap } from './fxmanifest';
+import { findHashExpressionAt, HashExpression, parseHashValue, toSignedHash } from './joaat';
+import {
+  AnalysisContext,
+  createAnalysisContext,
+  isReported,
+  LintDiagnostic,
+  LintFix,
+  lintContext,
+  LintOptions,
+  LintResult,
+  LintSeverity,
+  LintTag,
+  resolveRuleSeverities,
+} from './lint-engine';
+import { containsPosition, SourceRange, walkAst } from './lua-ast';
+import { LUALS_META_DIR } from './luals-meta';
+import { findInvokeNativeAt } from './native-hashes';
+import { collectEventReferences, EventReference, findEventHandlers } from './net-events';
+import {
+  PROJECT_CONFIG_FILES,
+  ProjectConfigLoader,
+  ResolvedProjectConfig,
+} from './project-config';
+import {
+  FILE_INFO_REQUEST,
+  FileInfo,
+  FileInfoParams,
+  HashLookupResult,
+  LuaLsDefinitionsResult,
+  SERVER_COMMANDS,
+  ServerInitializationOptions,
+  SETTINGS_SECTION,
+} from './protocol';
+import { createSarifLog } from './sarif';
+import { DirectiveKind, formatDirective } from './suppressions';
+import { findFiles, findLuaFiles } from './workspace-files';
+import { indexWorkspaceFiles, WorkspaceIndex } from './workspace-index';
+import { formatYieldReason } from './yield-analysis';
+
+const DIAGNOSTIC_SEVERITIES: Record<LintSeverity, DiagnosticSeverity> = {
+  hint: DiagnosticSeverity.Hint,
+  info: DiagnosticSeverity.Information,
+  warning: DiagnosticSeverity.Warning,
+  error: DiagnosticSeverity.Error,
+};
+
+const DIAGNOSTIC_TAGS: Record<LintTag, DiagnosticTag> = {
+  unnecessary: DiagnosticTag.Unnecessary,
+  deprecated: DiagnosticTag.Deprecated,
+};
+
+const MESSAGE_TYPES: Record<'info' | 'warning' | 'error', MessageType> = {
+  info: MessageType.Info,
+  warning: MessageType.Warning,
+  error: MessageType.Error,
+};
+
+const SCAN_DEBOUNCE_MS = 350;
+
+const connection = createConnection(ProposedFeatures.all);
+const documents = new TextDocuments(TextDocument);
+
+const documentScanTimers = new Map<string, NodeJS.Timeout>();
+const documentContexts = new Map<
+  string,
+  {
+    version: number;
+    context: AnalysisContext;
+    diagnostics: LintDiagnostic[];
+    /** Diagnostics of the last version that parsed, kept while a syntax error pauses the other checks. */
+    parsedDiagnostics: LintDiagnostic[];
+  }
+>();
+const workspaceIndex = new WorkspaceIndex();
+const projectConfigs = new ProjectConfigLoader();
+const manifests = new ManifestIndex();
+const reportedConfigErrors = new Set<string>();
+// Keyed by workspace folder; `null` marks a folder without a baseline file.
+const baselines = new Map<string, Baseline | null>();
+
+let workspaceFolders: string[] = [];
+// Names of the resources in the workspace folders, found on first use.
+let workspaceResources: Set<string> | undefined;
+let settings: Record<string, unknown> = {};
+let hasConfigurationCapability = false;
+let hasWatchedFilesRegistration = false;
+let hasWorkspaceFoldersCapability = false;
+let hasChangeAnnotationSupport = false;
+
+let documentationManager: DocumentationManager;
+let completionProvider: LuaCompletionProvider;
+let hoverProvider: LuaHoverProvider;
+let signatureHelpProvider: LuaSignatureHelpProvider;
+
+const documentationHost: DocumentationHost = {
+  getSettings: () => ({
+    documentationSources: getSetting<DocumentationSource[]>('documentationSources', []),
+    autoLoadLocalTypes: getSetting('autoLoadLocalTypes', true),
+  }),
+  findFiles: async (fileNames) =>
+    workspaceFolders.flatMap((folder) => findFiles(folder, (fileName) => fileNames.includes(fileName))),
+  showMessage,
+  withProgress: async (title, task) => {
+    const progress = await connection.window.createWorkDoneProgress();
+    progress.begin(title);
+    try {
+      await task((message) => progress.report(message));
+    } finally {
+      progress.done();
+    }
+  },
+  asRelativePath,
+};
+
+connection.onInitialize((params): InitializeResult => {
+  const options: ServerInitializationOptions = params.initializationOptions ?? {};
+  const { capabilities } = params;
+  settings = options.settings ?? {};
+  hasConfigurationCapability = !!capabilities.workspace?.configuration;
+  hasWatchedFilesRegistration = !!capabilities.workspace?.didChangeWatchedFiles?.dynamicRegistration;
+  hasWorkspaceFoldersCapability = !!capabilities.workspace?.workspaceFolders;
+  // Annotated edits make VS Code preview a rename before applying it.
+  hasChangeAnnotationSupport =
+    !!capabilities.workspace?.workspaceEdit?.documentChanges &&
+    !!capabilities.workspace.workspaceEdit.changeAnnotationSupport;
+
+  workspaceFolders = (params.workspaceFolders ?? []).map((folder) => toFilePath(folder.uri));
+  if (workspaceFolders.length === 0 && params.rootUri) {
+    workspaceFolders = [toFilePath(params.rootUri)];
+  }
+
+  documentationManager = new DocumentationManager(
+    options.documentationCacheDir ?? path.dirname(getDefaultDocumentationCacheFile()),
+    documentationHost,
+    resolveProjectConfig
+  );
+  completionProvider = new LuaCompletionProvider(documentationManager);
+  hoverProvider = new LuaHoverProvider(documentationManager);
+  signatureHelpProvider = new LuaSignatureHelpProvider(documentationManager);
+
+  return {
+    capabilities: {
+      textDocumentSync: TextDocumentSyncKind.Incremental,
+      codeActionProvider: { codeActionKinds: [CodeActionKind.QuickFix] },
+      completionProvider: { triggerCharacters: [':', "'", '"'] },
+      hoverProvider: true,
+      signatureHelpProvider: { triggerCharacters: ['(', ','] },
+      definitionProvider: true,
+      referencesProvider: true,
+      renameProvider: { prepareProvider: true },
+      executeCommandProvider: { commands: Object.values(SERVER_COMMANDS) },
+      workspace: { workspaceFolders: { supported: true, changeNotifications: true } },
+    },
+    serverInfo: { name: 'jericofx-lua-server', version: getPackageVersion() },
+  };
+});
+
+connection.onInitialized(async () => {
+  if (hasConfigurationCapability) {
+    void connection.client.register(DidChangeConfigurationNotification.type, { section: SETTINGS_SECTION });
+    await loadSettings();
+  }
+
+  if (hasWatchedFilesRegistration) {
+    void connection.client.register(DidChangeWatchedFilesNotification.type, {
+      watchers: [
+        { globPattern: '**/*.lua' },
+        { globPattern: `**/{${PROJECT_CONFIG_FILES.join(',')}}` },
+        { globPattern: `**/${BASELINE_FILE}` },
+      ],
+    });
+  }
+
+  if (hasWorkspaceFoldersCapability) {
+    connection.workspace.onDidChangeWorkspaceFolders((event) => {
+      const removed = new Set(event.removed.map((folder) => toFilePath(folder.uri)));
+      workspaceFolders = [
+        ...workspaceFolders.filter((folder) => !removed.has(folder)),
+        ...event.added.map((folder) => toFilePath(folder.uri)),
+      ];
+      removed.forEach((folder) => baselines.delete(folder));
+      workspaceResources = undefined;
+      void indexWorkspace();
+    });
+  }
+
+  if (getSetting('enableDocumentationFeatures', true)) {
+    void documentationManager.refreshDocumentation();
+  }
+  void indexWorkspace();
+});
+
+connection.onDidChangeConfiguration(async (change) => {
+  if (hasConfigurationCapability) {
+    await loadSettings();
+  } else {
+    settings = change.settings?.[SETTINGS_SECTION] ?? settings;
+  }
+  rescanOpenDocuments();
+});
+
+documents.onDidChangeContent(({ document }) => {
+  if (document.languageId === 'lua') {
+    scheduleDocumentScan(document);
+  }
+});
+
+documents.onDidClose(({ document }) => {
+  cancelScheduledScan(document);
+  documentContexts.delete(document.uri);
+  connection.sendDiagnostics({ uri: document.uri, diagnostics: [] });
+});
+
+connection.onDidChangeWatchedFiles(({ changes }) => {
+  let projectConfigChanged = false;
+  let manifestChanged = false;
+
+  for (const change of changes) {
+    const filePath = toFilePath(change.uri);
+    const fileName = path.basename(filePath);
+
+    if (PROJECT_CONFIG_FILES.includes(fileName)) {
+      projectConfigs.invalidate(filePath);
+      projectConfigChanged = true;
+    } else if (fileName === BASELINE_FILE) {
+      baselines.delete(path.dirname(filePath));
+      rescanOpenDocuments();
+    } else if (MANIFEST_FILES.includes(fileName)) {
+      // Files may have moved to another side or resource, which the index records for their events and exports.
+      manifests.invalidate(filePath);
+      if (change.type !== FileChangeType.Changed) {
+        workspaceResources = undefined;
+      }
+      manifestChanged = true;
+    } else {
+      if (change.type === FileChangeType.Deleted) {
+        if (workspaceIndex.removeFile(filePath)) {
+          rescanOpenDocuments();
+        }
+      } else {
+        void indexWorkspaceFile(filePath);
+      }
+      // Open manifests may list the file that was added or removed.
+      if (change.type !== FileChangeType.Changed) {
+        rescanOpenManifests();
+      }
+    }
+  }
+
+  if (projectConfigChanged) {
+    reportedConfigErrors.clear();
+    void documentationManager.syncProjectSources();
+  }
+  if (projectConfigChanged || manifestChanged) {
+    // Globals, yielding functions, ignored paths and the side of each file may all have changed.
+    void indexWorkspace();
+  }
+});
+
+connection.onCodeAction(({ textDocument, context }) => {
+  const document = documents.get(textDocument.uri);
+  if (!document) {
+    return [];
+  }
+
+  const actions: CodeAction[] = [];
+  for (const diagnostic of context.diagnostics) {
+    const ruleId = getDiagnosticRuleId(diagnostic);
+    const fix = findLintDiagnostic(document, diagnostic)?.fix;
+    if (fix) {
+      actions.push(createFixAction(document, diagnostic, fix));
+    }
+
+    if (ruleId && ruleId !== 'jericofx-unused-directive' && ruleId !== 'lua-syntax-error') {
+      actions.push(
+        createSuppressAction(document, diagnostic, ruleId, 'disable-next-line'),
+        createSuppressAction(document, diagnostic, ruleId, 'disable-file')
+      );
+    }
+  }
+  return actions;
+});
+
+connection.onHover(({ textDocument, position }) => {
+  const document = documents.get(textDocument.uri);
+  if (!document) {
+    return null;
+  }
+
+  const loopHover = provideLoopHover(document, document.offsetAt(position));
+  if (loopHover) {
+    return loopHover;
+  }
+  if (!getSetting('enableDocumentationFeatures', true)) {
+    return null;
+  }
+  const filePath = toFilePath(document.uri);
+  const side = getFileSide(filePath);
+  const offset = document.offsetAt(position);
+  const { ast } = getDiagnosticContext(document);
+  const invoke = ast && findInvokeNativeAt(ast, offset);
+  const native = invoke && documentationManager.getNativeByHash(invoke.hash, filePath);
+  if (invoke && native) {
+    return hoverProvider.provideFunctionHover(native, toLspRange(invoke.hashArgument.range), side);
+  }
+  const hash =
+    ast &&
+    findHashExpressionAt(ast, offset, {
+      lookupFunctionDocs: (name) => documentationManager.getFunctionDocumentationFromAllSources(name, filePath),
+      hasName: (value) => documentationManager.reverseLookupHash(value, filePath).length > 0,
+    });
+  if (hash) {
+    return provideHashHover(hash, filePath);
+  }
+  return hoverProvider.provideHover(document, position, filePath, side) ?? null;
+});
+
+connection.onCompletion(({ textDocument, position, context }) => {
+  const document = documents.get(textDocument.uri);
+  if (!document || !getSetting('enableDocumentationFeatures', true)) {
+    return null;
+  }
+  const filePath = toFilePath(document.uri);
+  const linePrefix = document.getText({ start: { line: position.line, character: 0 }, end: position });
+  const exportContext = getExportCompletionContext(linePrefix);
+
+  if (exportContext?.kind === 'export') {
+    const side = getFileSide(filePath);
+    const exports = getResourceExports(document, exportContext.resource).filter((declaration) =>
+      sidesOverlap(declaration.side, side)
+    );
+    return completionProvider.provideExportCompletionItems(exports);
+  }
+  if (exportContext?.kind === 'resource') {
+    return completionProvider.provideResourceCompletionItems(getWorkspaceResources());
+  }
+  // The trigger characters only mean something after `exports`.
+  if (context?.triggerCharacter) {
+    return null;
+  }
+  return completionProvider.provideCompletionItems(document, position, filePath, getFileSide(filePath));
+});
+
+connection.onSignatureHelp(({ textDocument, position, context }) => {
+  const document = documents.get(textDocument.uri);
+  if (!document || !getSetting('enableDocumentationFeatures', true)) {
+    return null;
+  }
+  const lookupExport = (resource: string, name: string) =>
+    getResourceExports(document, resource).find((declaration) => declaration.name === name)?.doc;
+  return (
+    signatureHelpProvider.provideSignatureHelp(
+      document,
+      position,
+      toFilePath(document.uri),
+      lookupExport,
+      context?.activeSignatureHelp?.activeSignature
+    ) ?? null
+  );
+});
+
+connection.onDefinition(({ textDocument, position }) => {
+  const document = documents.get(textDocument.uri);
+  if (!document) {
+    return null;
+  }
+  const event = findEventAtPosition(document, position);
+  if (event) {
+    return findEventHandlers(event.reference, event.references).map(toLocation);
+  }
+
+  const { ast } = getDiagnosticContext(document);
+  const offset = document.offsetAt(position);
+  const call = ast && findExportCalls(ast).find((candidate) => containsPosition(candidate.nameRange, offset));
+  if (!call) {
+    return null;
+  }
+  return getResourceExports(document, call.resource)
+    .filter((declaration) => declaration.name === call.name)
+    .map((declaration) => ({ uri: pathToFileURL(declaration.filePath!).href, range: toLspRange(declaration.range) }));
+});
+
+connection.onReferences(({ textDocument, position, context }) => {
+  const document = documents.get(textDocument.uri);
+  const event = document && findEventAtPosition(document, position);
+  if (!event) {
+    return null;
+  }
+  return event.references
+    .filter((reference) => context.includeDeclaration || reference.kind !== 'handler')
+    .map(toLocation);
+});
+
+connection.onPrepareRename(({ textDocument, position }) => {
+  const document = documents.get(textDocument.uri);
+  const event = document && findEventAtPosition(document, position);
+  if (!event?.reference.nameRange) {
+    return null;
+  }
+  return { range: toLspRange(event.reference.nameRange), placeholder: event.reference.name };
+});
+
+connection.onRenameRequest(({ textDocument, position, newName }) => {
+  const document = documents.get(textDocument.uri);
+  const event = document && findEventAtPosition(document, position);
+  if (!event) {
+    return null;
+  }
+  if (!newName || /['"\\\r\n]/.test(newName)) {
+    throw new ResponseError(
+      ErrorCodes.InvalidParams,
+      'Event names cannot be empty or contain quotes, backslashes or line breaks.'
+    );
+  }
+
+  const edits = new Map<string, TextEdit[]>();
+  for (const reference of event.references) {
+    const filePath = reference.filePath!;
+    if (!reference.nameRange) {
+      const line = reference.range.start.line + 1;
+      throw new ResponseError(
+        ErrorCodes.InvalidRequest,
+        `'${reference.name}' is written with escape sequences in ${asRelativePath(filePath)}:${line}. Rename it there first.`
+      );
+    }
+    const edit: TextEdit = { range: toLspRange(reference.nameRange), newText: newName };
+    edits.set(filePath, [...(edits.get(filePath) ?? []), edit]);
+  }
+  return createRenameEdit(event.reference.name, edits);
+});
+
+connection.onRequest(FILE_INFO_REQUEST, ({ uri }: FileInfoParams): FileInfo | null => {
+  const filePath = toFilePath(uri);
+  const file = manifests.getFileResource(filePath, getWorkspaceFolder(filePath));
+  if (!file) {
+    return null;
+  }
+  return { resource: file.resource.name, manifest: file.resource.filePath, side: file.side ?? null };
+});
+
+connection.onExecuteCommand(async ({ command, arguments: args = [] }) => {
+  switch (command) {
+    case SERVER_COMMANDS.scanFile: {
+      const document = documents.get(String(args[0]));
+      if (document) {
+        scanDocument(document);
+      }
+      return null;
+    }
+    case SERVER_COMMANDS.scanWorkspace:
+      scanWorkspace();
+      return null;
+    case SERVER_COMMANDS.refreshDocumentation:
+      await documentationManager.refreshDocumentation();
+      syncLuaLsDefinitions();
+      return null;
+    case SERVER_COMMANDS.addDocumentationSource:
+      await documentationManager.addDocumentationSource(args[0] as DocumentationSource);
+      syncLuaLsDefinitions();
+      return null;
+    case SERVER_COMMANDS.clearDocumentationCache:
+      await documentationManager.clearDocumentationCache();
+      return null;
+    case SERVER_COMMANDS.debugDocumentation:
+      return getDocumentationDebugInfo();
+    case SERVER_COMMANDS.exportSarif:
+      return exportSarif(args[0] as string | undefined, args[1] as string | undefined);
+    case SERVER_COMMANDS.createBaseline:
+      return createBaseline(args[0] as string | undefined);
+    case SERVER_COMMANDS.pruneBaseline:
+      return pruneBaseline(args[0] as string | undefined);
+    case SERVER_COMMANDS.reverseLookupHash:
+      return reverseLookupHash(String(args[0] ?? ''));
+    case SERVER_COMMANDS.generateLuaLsDefinitions:
+      return generateLuaLsDefinitions(args[0] as string | undefined);
+    default:
+      return null;
+  }
+});
+
+async function loadSettings() {
+  settings = (await connection.workspace.getConfiguration(SETTINGS_SECTION)) ?? {};
+}
+
+function getSetting<T>(key: string, defaultValue: T): T {
+  const value = settings[key];
+  return value === undefined || value === null ? defaultValue : (value as T);
+}
+
+async function indexWorkspace() {
+  try {
+    const contexts: AnalysisContext[] = [];
+    for (const folder of workspaceFolders) {
+      for (const filePath of findLuaFiles(folder)) {
+        const context = await readWorkspaceFile(filePath);
+        if (context) {
+          contexts.push(context);
+        }
+      }
+    }
+    // Open documents take part with their live contents, so helper chains through them resolve as well.
+    documentContexts.forEach(({ context }) => contexts.push(context));
+    indexWorkspaceFiles(workspaceIndex, contexts);
+  } catch (error) {
+    console.error('Failed to index the workspace:', error);
+  }
+
+  // Open documents may call helpers that were not indexed on their first scan.
+  rescanOpenDocuments();
+}
+
+async function indexWorkspaceFile(filePath: string) {
+  const context = await readWorkspaceFile(filePath);
+  if (context && updateWorkspaceIndex(context)) {
+    // Open documents may trigger or handle the events of this file.
+    rescanOpenDocuments();
+  }
+}
+
+/** Parses a workspace file for the index; open documents and ignored files are skipped. */
+async function readWorkspaceFile(filePath: string): Promise<AnalysisContext | undefined> {
+  // Open documents are indexed from their live contents when they are scanned.
+  if (documents.all().some((document) => toFilePath(document.uri) === filePath)) {
+    return undefined;
+  }
+
+  const project = resolveProjectConfig(filePath);
+  if (projectConfigs.isIgnored(filePath, project)) {
+    workspaceIndex.removeFile(filePath);
+    return undefined;
+  }
+
+  try {
+    const text = await fs.promises.readFile(filePath, 'utf8');
+    return createAnalysisContext(text, filePath, getAnalysisOptions(filePath, project));
+  } catch (error) {
+    console.error(`Failed to index ${filePath}:`, error);
+    return undefined;
+  }
+}
+
+/** Records what other files can use from this one. Returns whether its events or exports changed. */
+function updateWorkspaceIndex({ filePath, ast, scopes, yields, side, resource }: AnalysisContext): boolean {
+  if (!ast || !yields) {
+    // Keep the last summary while the file has a syntax error, instead of reporting its events as gone.
+    return false;
+  }
+  return workspaceIndex.updateFile(filePath, {
+    yieldingFunctions: yields.getYieldingGlobals(),
+    events: collectEventReferences(ast, side),
+    exports: resource ? collectExports(ast, scopes, resource.name, side) : [],
+  });
+}
+
+function scanDocument(document: TextDocument) {
+  const filePath = toFilePath(document.uri);
+
+  const project = resolveProjectConfig(filePath);
+  if (projectConfigs.isIgnored(filePath, project)) {
+    connection.sendDiagnostics({ uri: document.uri, diagnostics: [] });
+    documentContexts.delete(document.uri);
+    if (workspaceIndex.removeFile(filePath)) {
+      rescanOpenDocuments(document);
+    }
+    return;
+  }
+
+  const context = createAnalysisContext(document.getText(), filePath, getAnalysisOptions(filePath, project));
+  if (updateWorkspaceIndex(context)) {
+    rescanOpenDocuments(document);
+  }
+
+  let diagnostics = applyBaseline(context, lintContext(context));
+  let parsedDiagnostics = diagnostics;
+  if (context.syntaxError) {
+    // Findings should not vanish while a line is half typed. Their fixes are dropped: the edits are for the old text.
+    parsedDiagnostics = documentContexts.get(document.uri)?.parsedDiagnostics ?? [];
+    diagnostics = [...diagnostics, ...parsedDiagnostics.map(({ fix, ...diagnostic }) => diagnostic)];
+  }
+  documentContexts.set(document.uri, { version: document.version, context, diagnostics, parsedDiagnostics });
+  connection.sendDiagnostics({
+    uri: document.uri,
+    version: document.version,
+    diagnostics: diagnostics.filter(isReported).map((diagnostic) => toLspDiagnostic(diagnostic, document.uri)),
+  });
+}
+
+/** Publishes diagnostics for every workspace Lua file; open documents use their live contents. */
+function scanWorkspace() {
+  for (const folder of workspaceFolders) {
+    for (const filePath of findLuaFiles(folder)) {
+      const uri = pathToFileURL(filePath).href;
+      const document = documents.all().find((candidate) => toFilePath(candidate.uri) === filePath);
+      if (document) {
+        scanDocument(document);
+        continue;
+      }
+
+      const project = resolveProjectConfig(filePath);
+      if (projectConfigs.isIgnored(filePath, project)) {
+        continue;
+      }
+      try {
+        const context = createAnalysisContext(
+          fs.readFileSync(filePath, 'utf8'),
+          filePath,
+          getAnalysisOptions(filePath, project)
+        );
+        const diagnostics = applyBaseline(context, lintContext(context));
+        connection.sendDiagnostics({
+          uri,
+          diagnostics: diagnostics.filter(isReported).map((diagnostic) => toLspDiagnostic(diagnostic, uri)),
+        });
+      } catch (error) {
+        console.error(`Failed to lint ${filePath}:`, error);
+      }
+    }
+  }
+}
+
+/** Lints every Lua file of a workspace folder, including suppressed findings. */
+function lintWorkspaceFolder(folder: string): BaselineSource[] {
+  const sources: BaselineSource[] = [];
+
+  for (const filePath of findLuaFiles(folder)) {
+    const project = resolveProjectConfig(filePath);
+    if (projectConfigs.isIgnored(filePath, project)) {
+      continue;
+    }
+
+    try {
+      const document = documents.all().find((candidate) => toFilePath(candidate.uri) === filePath);
+      const context = createAnalysisContext(
+        document ? document.getText() : fs.readFileSync(filePath, 'utf8'),
+        filePath,
+        getAnalysisOptions(filePath, project)
+      );
+      sources.push({
+        filePath,
+        text: context.text,
+        diagnostics: lintContext(context, { includeSuppressed: true }),
+      });
+    } catch (error) {
+      console.error(`Failed to lint ${filePath}:`, error);
+    }
+  }
+
+  return sources;
+}
+
+/** The workspace folder a command targets: the given URI, or the first folder. */
+function getCommandFolder(folderUri: string | undefined): string | undefined {
+  const folder = folderUri ? toFilePath(folderUri) : workspaceFolders[0];
+  if (!folder) {
+    showMessage('warning', 'JericoFX Lua Tools: open a folder first.');
+  }
+  return folder;
+}
+
+/** Lints the folder, including suppressed and baselined findings, and saves a SARIF log. */
+function exportSarif(folderUri: string | undefined, targetPath: string | undefined) {
+  const folder = getCommandFolder(folderUri);
+  if (!folder) {
+    return null;
+  }
+
+  const target = targetPath ?? path.join(folder, 'jericofx.sarif');
+  const baseline = getBaseline(folder);
+  const results: LintResult[] = lintWorkspaceFolder(folder).map((source) => ({
+    filePath: source.filePath,
+    diagnostics: baseline ? baseline.apply(source) : source.diagnostics,
+  }));
+
+  const log = createSarifLog(results, { rootDir: folder, toolVersion: getPackageVersion() });
+  fs.writeFileSync(target, JSON.stringify(log, null, 2));
+
+  const count = results.reduce((total, result) => total + result.diagnostics.length, 0);
+  showMessage(
+    'info',
+    `JericoFX Lua Tools: exported ${count} findings from ${results.length} files to ${asRelativePath(target)}.`
+  );
+  return target;
+}
+
+/** Replaces the folder's baseline file with the current findings. */
+function createBaseline(folderUri: string | undefined) {
+  const folder = getCommandFolder(folderUri);
+  if (!folder) {
+    return null;
+  }
+
+  const baselinePath = path.join(folder, BASELINE_FILE);
+  const baseline = Baseline.fromSources(baselinePath, lintWorkspaceFolder(folder));
+  baseline.save();
+  baselines.set(folder, baseline);
+  rescanOpenDocuments();
+  showMessage(
+    'info',
+    `JericoFX Lua Tools: recorded ${baseline.size} findings in ${BASELINE_FILE}. Commit it so only new findings are reported.`
+  );
+  return baseline.size;
+}
+
+function pruneBaseline(folderUri: string | undefined) {
+  const folder = getCommandFolder(folderUri);
+  if (!folder) {
+    return null;
+  }
+
+  const baseline = getBaseline(folder);
+  if (!baseline) {
+    showMessage('info', `JericoFX Lua Tools: this folder has no ${BASELINE_FILE}.`);
+    return null;
+  }
+
+  const removed = baseline.prune(lintWorkspaceFolder(folder));
+  baseline.save();
+  rescanOpenDocuments();
+  showMessage(
+    'info',
+    `JericoFX Lua Tools: removed ${removed} fixed findings from ${BASELINE_FILE}; ${baseline.size} remain.`
+  );
+  return removed;
+}
+
+function generateLuaLsDefinitions(folderUri: string | undefined): LuaLsDefinitionsResult | null {
+  const folder = getCommandFolder(folderUri);
+  if (!folder) {
+    return null;
+  }
+
+  const directory = path.join(folder, LUALS_META_DIR);
+  const files = documentationManager.writeLuaLsDefinitions(directory);
+  showMessage('info', `JericoFX Lua Tools: wrote ${files} LuaLS definition files to ${asRelativePath(directory)}.`);
+  return { directory, library: LUALS_META_DIR, files };
+}
+
+/** With `sumnekoCompatibility` on, rewrites definition folders generated before so they follow refreshed sources. */
+function syncLuaLsDefinitions() {
+  if (!getSetting('sumnekoCompatibility', true)) {
+    return;
+  }
+  for (const folder of workspaceFolders) {
+    const directory = path.join(folder, LUALS_META_DIR);
+    if (fs.existsSync(directory)) {
+      documentationManager.writeLuaLsDefinitions(directory);
+    }
+  }
+}
+
+function reverseLookupHash(value: string): HashLookupResult | null {
+  const hash = parseHashValue(value);
+  if (hash === undefined) {
+    return null;
+  }
+  return { unsigned: hash, signed: toSignedHash(hash), names: documentationManager.reverseLookupHash(hash) };
+}
+
+function getDocumentationDebugInfo(): string {
+  const allFunctions = documentationManager.getAllFunctions();
+  const sources = getSetting<DocumentationSource[]>('documentationSources', []);
+
+  let debugInfo = `=== Documentation Debug Info ===\n`;
+  debugInfo += `Total sources configured: ${sources.length}\n`;
+  debugInfo += `Total functions loaded: ${allFunctions.length}\n\n`;
+
+  debugInfo += `Sources:\n`;
+  sources.forEach((source) => {
+    debugInfo += `- ${source.name}: ${source.enabled ? 'enabled' : 'disabled'} (${source.type})\n`;
+  });
+
+  debugInfo += `\nFirst 10 functions:\n`;
+  allFunctions.slice(0, 10).forEach((func) => {
+    debugInfo += `- ${func.name} (${func.source})\n`;
+  });
+
+  connection.console.log(debugInfo);
+  return debugInfo;
+}
+
+/** Workspace folder containing `filePath`; the innermost one when folders are nested. */
+function getWorkspaceFolder(filePath: string): string | undefined {
+  return workspaceFolders
+    .filter((folder) => isInside(filePath, folder))
+    .sort((a, b) => b.length - a.length)[0];
+}
+
+/** Baseline of the workspace folder containing `filePath`, if it has one. */
+function getBaseline(filePath: string): Baseline | undefined {
+  const directory = getWorkspaceFolder(filePath);
+  if (!directory) {
+    return undefined;
+  }
+
+  if (!baselines.has(directory)) {
+    const baselinePath = path.join(directory, BASELINE_FILE);
+    let baseline: Baseline | null = null;
+    if (fs.existsSync(baselinePath)) {
+      try {
+        baseline = Baseline.load(baselinePath);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        showMessage('warning', `JericoFX Lua Tools: ignoring ${message}`);
+      }
+    }
+    baselines.set(directory, baseline);
+  }
+  return baselines.get(directory) ?? undefined;
+}
+
+function applyBaseline(context: AnalysisContext, diagnostics: LintDiagnostic[]): LintDiagnostic[] {
+  const baseline = getBaseline(context.filePath);
+  return baseline
+    ? baseline.apply({ filePath: context.filePath, text: context.text, diagnostics })
+    : diagnostics;
+}
+
+/** Schedules a scan of every open Lua document, except `except` when given. */
+function rescanOpenDocuments(except?: TextDocument) {
+  documents.all().forEach((document) => {
+    if (document.languageId === 'lua' && document.uri !== except?.uri) {
+      scheduleDocumentScan(document);
+    }
+  });
+}
+
+function rescanOpenManifests() {
+  documents.all().forEach((document) => {
+    if (isManifestFile(toFilePath(document.uri))) {
+      scheduleDocumentScan(document);
+    }
+  });
+}
+
+function scheduleDocumentScan(document: TextDocument) {
+  cancelScheduledScan(document);
+  const timer = setTimeout(() => {
+    documentScanTimers.delete(document.uri);
+    // The document may have been closed or edited since the scan was scheduled.
+    const current = documents.get(document.uri);
+    if (current) {
+      scanDocument(current);
+    }
+  }, SCAN_DEBOUNCE_MS);
+  documentScanTimers.set(document.uri, timer);
+}
+
+function cancelScheduledScan(document: TextDocument) {
+  const existingTimer = documentScanTimers.get(document.uri);
+  if (existingTimer) {
+    clearTimeout(existingTimer);
+    documentScanTimers.delete(document.uri);
+  }
+}
+
+/** Nearest project config files for `filePath`, merged within its workspace folder. */
+function resolveProjectConfig(filePath: string): ResolvedProjectConfig {
+  const project = projectConfigs.resolve(filePath, getWorkspaceFolder(filePath));
+
+  for (const error of project.errors) {
+    if (!reportedConfigErrors.has(error.message)) {
+      reportedConfigErrors.add(error.message);
+      showMessage('warning', `JericoFX Lua Tools: ignoring ${error.message}`);
+    }
+  }
+
+  return project;
+}
+
+function getAnalysisOptions(
+  filePath: string,
+  project: ResolvedProjectConfig = resolveProjectConfig(filePath)
+): LintOptions {
+  const file = manifests.getFileResource(filePath, getWorkspaceFolder(filePath));
+  const severities = resolveRuleSeverities(
+    { ...getSetting<Record<string, RuleSeverity>>('rules', {}), ...project.rules },
+    (rule) => !rule.legacySetting || getSetting(rule.legacySetting, true)
+  );
+
+  return {
+    knownGlobals: new Set([
+      ...documentationManager.getKnownGlobals(filePath),
+      ...getSetting('globals', DEFAULT_GLOBALS),
+      ...project.globals,
+    ]),
+    yieldingFunctions: new Set([
+      ...WAIT_FUNCTIONS,
+      ...getSetting('yieldingFunctions', DEFAULT_YIELDING_FUNCTIONS),
+      ...project.yieldingFunctions,
+    ]),
+    severities,
+    lookupYieldingGlobal: (name) => workspaceIndex.findYieldingFunction(name, filePath),
+    resource: file?.resource,
+    side: file?.side,
+    lookupFunctionDocs: (name) => documentationManager.getFunctionDocumentationFromAllSources(name, filePath),
+    knownResources: getWorkspaceResources(),
+    lookupWorkspaceEvents: () => workspaceIndex.getEventReferences(filePath),
+    lookupExports: (resource) => workspaceIndex.getExports(resource, filePath),
+    lookupNativeHash: documentationManager.hasNativeHashes(filePath)
+      ? (hash) => documentationManager.getNativeByHash(hash, filePath)
+      : undefined,
+    coversGameNatives: documentationManager.hasGameNativeHashes(filePath),
+  };
+}
+
+function getFileSide(filePath: string): ScriptSide | undefined {
+  return manifests.getFileResource(filePath, getWorkspaceFolder(filePath))?.side;
+}
+
+/** A resource is any folder with a manifest; its folder name is the name other manifests depend on. */
+function getWorkspaceResources(): Set<string> {
+  workspaceResources ??= new Set(
+    workspaceFolders.flatMap((folder) =>
+      findFiles(folder, (fileName) => MANIFEST_FILES.includes(fileName)).map((file) =>
+        path.basename(path.dirname(file))
+      )
+    )
+  );
+  return workspaceResources;
+}
+
+function getDiagnosticContext(document: TextDocument): AnalysisContext {
+  const cached = documentContexts.get(document.uri);
+  if (cached && cached.version === document.version) {
+    return cached.context;
+  }
+  const filePath = toFilePath(document.uri);
+  return createAnalysisContext(document.getText(), filePath, getAnalysisOptions(filePath));
+}
+
+/** Exports of `resource` across the workspace, with those of `document` read from its live contents. */
+function getResourceExports(document: TextDocument, resource: string): ExportDeclaration[] {
+  const context = getDiagnosticContext(document);
+  const { ast, scopes, side, filePath } = context;
+  const own =
+    ast && context.resource?.name === resource
+      ? collectExports(ast, scopes, resource, side).map((declaration) => ({ ...declaration, filePath }))
+      : [];
+  return [...own, ...workspaceIndex.getExports(resource, filePath)];
+}
+
+/** The event name string under `position` and every reference to that event in the workspace. */
+function findEventAtPosition(
+  document: TextDocument,
+  position: Position
+): { reference: EventReference; references: EventReference[] } | undefined {
+  const context = getDiagnosticContext(document);
+  if (!context.ast) {
+    return undefined;
+  }
+
+  const { filePath } = context;
+  const offset = document.offsetAt(position);
+  const fileEvents = collectEventReferences(context.ast, context.side).map((reference) => ({ ...reference, filePath }));
+  const reference = fileEvents.find((candidate) => containsPosition(candidate.range, offset));
+  if (!reference) {
+    return undefined;
+  }
+
+  const references = [...fileEvents, ...workspaceIndex.getEventReferences(filePath)].filter(
+    (candidate) => candidate.name === reference.name
+  );
+  return { reference, references };
+}
+
+/** Builds the workspace edit of an event rename; clients that support it preview it first. */
+function createRenameEdit(eventName: string, edits: Map<string, TextEdit[]>): WorkspaceEdit {
+  if (!hasChangeAnnotationSupport) {
+    const changes: Record<string, TextEdit[]> = {};
+    edits.forEach((fileEdits, filePath) => (changes[pathToFileURL(filePath).href] = fileEdits));
+    return { changes };
+  }
+
+  const annotationId = 'renameEvent';
+  const documentChanges: TextDocumentEdit[] = [];
+  edits.forEach((fileEdits, filePath) => {
+    const uri = pathToFileURL(filePath).href;
+    documentChanges.push({
+      textDocument: { uri, version: documents.get(uri)?.version ?? null },
+      edits: fileEdits.map((edit) => ({ ...edit, annotationId })),
+    });
+  });
+  return {
+    documentChanges,
+    changeAnnotations: {
+      [annotationId]: {
+        label: `Rename event '${eventName}'`,
+        description: `${edits.size} file${edits.size === 1 ? '' : 's'}`,
+        needsConfirmation: true,
+      },
+    },
+  };
+}
+
+function toLocation(reference: EventReference): Location {
+  return { uri: pathToFileURL(reference.filePath!).href, range: toLspRange(reference.range) };
+}
+
+function provideLoopHover(document: TextDocument, offset: number): Hover | undefined {
+  const { ast, yields } = getDiagnosticContext(document);
+  if (!ast || !yields) {
+    return undefined;
+  }
+
+  let hover: Hover | undefined;
+  walkAst(ast, {
+    enter(node) {
+      if (hover || (node.type !== 'WhileStatement' && node.type !== 'RepeatStatement')) {
+        return;
+      }
+      if (!containsPosition(node.header, offset)) {
+        return;
+      }
+
+      const reason = yields.findLoopYield(node);
+      hover = {
+        contents: {
+          kind: MarkupKind.Markdown,
+          value: reason
+            ? `**Loop yields** via ${formatYieldReason(reason, asRelativePath)}`
+            : '**Loop never yields**: no call in the body reaches `Wait()`.',
+        },
+        range: toLspRange(node.header),
+      };
+    },
+  });
+
+  return hover;
+}
+
+function provideHashHover({ range, hash, text }: HashExpression, filePath: string): Hover {
+  const lines = [
+    text === undefined ? '**Hash**' : `**Hash** of \`${text}\``,
+    '',
+    `- Unsigned: \`${hash}\` (\`0x${hash.toString(16).toUpperCase().padStart(8, '0')}\`)`,
+    `- Signed: \`${toSignedHash(hash)}\``,
+  ];
+  // A string is its own name; numbers are looked up in the loaded name lists.
+  if (text === undefined) {
+    lines.push(
+      ...documentationManager.reverseLookupHash(hash, filePath).map(({ name, source }) => `- Name: \`${name}\` (${source})`)
+    );
+  }
+  return { contents: { kind: MarkupKind.Markdown, value: lines.join('\n') }, range: toLspRange(range) };
+}
+
+function createSuppressAction(
+  document: TextDocument,
+  diagnostic: Diagnostic,
+  ruleId: string,
+  kind: DirectiveKind
+): CodeAction {
+  const line = kind === 'disable-file' ? 0 : diagnostic.range.start.line;
+  const lineText = document.getText({ start: { line, character: 0 }, end: { line: line + 1, character: 0 } });
+  const indent = lineText.match(/^[ \t]*/)?.[0] ?? '';
+  const position = { line, character: 0 };
+
+  return {
+    title: kind === 'disable-file' ? `Disable ${ruleId} for this file` : `Disable ${ruleId} for this line`,
+    kind: CodeActionKind.QuickFix,
+    diagnostics: [diagnostic],
+    edit: {
+      changes: {
+        [document.uri]: [
+          {
+            range: { start: position, end: position },
+            newText: `${kind === 'disable-file' ? '' : indent}-- ${formatDirective(kind, [ruleId])}\n`,
+          },
+        ],
+      },
+    },
+  };
+}
+
+function createFixAction(document: TextDocument, diagnostic: Diagnostic, fix: LintFix): CodeAction {
+  return {
+    title: fix.title,
+    kind: CodeActionKind.QuickFix,
+    diagnostics: [diagnostic],
+    edit: {
+      changes: {
+        [document.uri]: fix.edits.map((edit) => ({ range: toLspRange(edit.range), newText: edit.newText })),
+      },
+    },
+    isPreferred: true,
+  };
+}
+
+/** The engine diagnostic behind a diagnostic shown in the editor. */
+function findLintDiagnostic(document: TextDocument, diagnostic: Diagnostic): LintDiagnostic | undefined {
+  const cached = documentContexts.get(document.uri);
+  const diagnostics =
+    cached && cached.version === document.version
+      ? cached.diagnostics
+      : lintContext(getDiagnosticContext(document));
+  const ruleId = getDiagnosticRuleId(diagnostic);
+  return diagnostics.find(
+    (candidate) =>
+      candidate.ruleId === ruleId &&
+      candidate.message === diagnostic.message &&
+      isSameRange(toLspRange(candidate.range), diagnostic.range)
+  );
+}
+
+function toLspRange(range: SourceRange): Range {
+  return {
+    start: { line: range.start.line, character: range.start.character },
+    end: { line: range.end.line, character: range.end.character },
+  };
+}
+
+function isSameRange(a: Range, b: Range): boolean {
+  return (
+    a.start.line === b.start.line &&
+    a.start.character === b.start.character &&
+    a.end.line === b.end.line &&
+    a.end.character === b.end.character
+  );
+}
+
+function toLspDiagnostic(lintDiagnostic: LintDiagnostic, uri: string): Diagnostic {
+  const { ruleId, related } = lintDiagnostic;
+  return {
+    range: toLspRange(lintDiagnostic.range),
+    message: lintDiagnostic.message,
+    severity: DIAGNOSTIC_SEVERITIES[lintDiagnostic.severity],
+    code: ruleId,
+    codeDescription: { href: getRuleDocsUrl(ruleId) },
+    source: 'jericofx',
+    ...(lintDiagnostic.tags ? { tags: lintDiagnostic.tags.map((tag) => DIAGNOSTIC_TAGS[tag]) } : {}),
+    ...(related
+      ? {
+          relatedInformation: related.map(({ range, message }) => ({
+            location: { uri, range: toLspRange(range) },
+            message,
+          })),
+        }
+      : {}),
+  };
+}
+
+function getDiagnosticRuleId(diagnostic: Diagnostic): string | undefined {
+  return diagnostic.code === undefined ? undefined : String(diagnostic.code);
+}
+
+/** Shows a message without waiting for the user, so clients that cannot answer requests work too. */
+function showMessage(type: keyof typeof MESSAGE_TYPES, message: string) {
+  void connection.sendNotification(ShowMessageNotification.type, { type: MESSAGE_TYPES[type], message });
+}
+
+/** File system path of a `file:` URI; other schemes, such as unsaved documents, are kept as is. */
+function toFilePath(uri: string): string {
+  return uri.startsWith('file:') ? fileURLToPath(uri) : uri;
+}
+
+function isInside(filePath: string, directory: string): boolean {
+  const relative = path.relative(directory, filePath);
+  return !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+function asRelativePath(filePath: string): string {
+  const folder = getWorkspaceFolder(filePath);
+  return folder ? path.relative(folder, filePath).split(path.sep).join('/') : filePath;
+}
+
+documents.listen(connection);
+connection.listen();
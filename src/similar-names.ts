@@ -0,0 +1,35 @@
+/** Closest candidate within a small edit distance, for suggesting a fix to a misspelt name. */
+export function findSimilarName(name: string, candidates: Iterable<string>): string | undefined {
+  const maxDistance = Math.min(3, Math.max(1, Math.floor(name.length / 5)));
+  let best: string | undefined;
+  let bestDistance = maxDistance + 1;
+
+  for (const candidate of candidates) {
+    if (candidate === name || Math.abs(candidate.length - name.length) >= bestDistance) {
+      continue;
+    }
+    const distance = getEditDistance(name, candidate);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+/** Levenshtein distance; case changes count as edits because the names it compares are case-sensitive. */
+function getEditDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
@@ -0,0 +1,177 @@
+import { Comment, SourceRange } from './lua-ast';
+
+export type DirectiveKind =
+  | 'disable-next-line'
+  | 'disable-line'
+  | 'disable'
+  | 'enable'
+  | 'disable-file';
+
+export interface SuppressionDirective {
+  kind: DirectiveKind;
+  /** Rule ids named by the directive; empty means every rule. */
+  rules: string[];
+  /** Free text after ` -- `, e.g. why the rule is disabled. */
+  description?: string;
+  comment: Comment;
+}
+
+export interface UnusedDirective {
+  directive: SuppressionDirective;
+  /** The rule entry that suppressed nothing; undefined when the whole directive is unused. */
+  rule?: string;
+}
+
+export const DIRECTIVE_PREFIX = 'jericofx-';
+
+const DIRECTIVE_PATTERN =
+  /^\s*jericofx-(disable-next-line|disable-line|disable-file|disable|enable)(?=\s|$)(.*)$/s;
+
+/** Parses a comment body into a directive, e.g. `jericofx-disable-line fivem-global-variable`. */
+export function parseDirective(comment: Comment): SuppressionDirective | undefined {
+  const match = DIRECTIVE_PATTERN.exec(comment.value);
+  if (!match) {
+    return undefined;
+  }
+
+  const [rulesText, ...descriptionParts] = match[2].split(/\s--\s?/);
+  const description = descriptionParts.join(' -- ').trim();
+  return {
+    kind: match[1] as DirectiveKind,
+    rules: rulesText.split(/[\s,]+/).filter(Boolean),
+    description: description || undefined,
+    comment,
+  };
+}
+
+export function formatDirective(
+  kind: DirectiveKind,
+  rules: readonly string[],
+  description?: string
+): string {
+  const parts = [`${DIRECTIVE_PREFIX}${kind}`];
+  if (rules.length > 0) {
+    parts.push(rules.join(', '));
+  }
+  if (description) {
+    parts.push(`-- ${description}`);
+  }
+  return parts.join(' ');
+}
+
+/** Rewrites a directive comment with a different rule list, keeping its comment style. */
+export function formatDirectiveComment(directive: SuppressionDirective, rules: readonly string[]): string {
+  const text = formatDirective(directive.kind, rules, directive.description);
+  return directive.comment.long ? `--[[ ${text} ]]` : `-- ${text}`;
+}
+
+/**
+ * Answers whether a rule is suppressed on a line and remembers which
+ * directive entries were needed, so unused ones can be reported afterwards.
+ */
+export class SuppressionMap {
+  readonly directives: SuppressionDirective[];
+  private readonly usedRules = new Map<SuppressionDirective, Set<string>>();
+
+  constructor(comments: readonly Comment[]) {
+    this.directives = comments
+      .map(parseDirective)
+      .filter((directive): directive is SuppressionDirective => !!directive);
+  }
+
+  /** `line` is zero-based, like the ranges in the syntax tree. */
+  isSuppressed(ruleId: string, line: number): boolean {
+    return this.getSuppressingDirective(ruleId, line) !== undefined;
+  }
+
+  /** Like `isSuppressed`, but returns the directive that applies. */
+  getSuppressingDirective(ruleId: string, line: number): SuppressionDirective | undefined {
+    const directive = this.findSuppressingDirective(ruleId, line);
+    if (!directive) {
+      return undefined;
+    }
+
+    let used = this.usedRules.get(directive);
+    if (!used) {
+      used = new Set();
+      this.usedRules.set(directive, used);
+    }
+    used.add(ruleId);
+    return directive;
+  }
+
+  /**
+   * Directives (or single rule entries of a directive) that suppressed
+   * nothing. `enable` directives are never reported.
+   */
+  getUnusedDirectives(): UnusedDirective[] {
+    const unused: UnusedDirective[] = [];
+
+    for (const directive of this.directives) {
+      if (directive.kind === 'enable') {
+        continue;
+      }
+
+      const used = this.usedRules.get(directive);
+      if (!used) {
+        unused.push({ directive });
+        continue;
+      }
+      directive.rules
+        .filter((rule) => !used.has(rule))
+        .forEach((rule) => unused.push({ directive, rule }));
+    }
+
+    return unused;
+  }
+
+  private findSuppressingDirective(ruleId: string, line: number): SuppressionDirective | undefined {
+    // Line directives are the most specific, so they win over regions and
+    // file-level directives that also cover the line.
+    let regionDirective: SuppressionDirective | undefined;
+    let fileDirective: SuppressionDirective | undefined;
+
+    for (const directive of this.directives) {
+      if (!appliesTo(directive, ruleId)) {
+        continue;
+      }
+
+      const directiveLine = directive.comment.range.start.line;
+      switch (directive.kind) {
+        case 'disable-file':
+          fileDirective = fileDirective ?? directive;
+          break;
+        case 'disable-line':
+          if (coversLine(directive.comment.range, line)) {
+            return directive;
+          }
+          break;
+        case 'disable-next-line':
+          if (directive.comment.range.end.line + 1 === line) {
+            return directive;
+          }
+          break;
+        case 'disable':
+          if (directiveLine <= line) {
+            regionDirective = regionDirective ?? directive;
+          }
+          break;
+        case 'enable':
+          if (directiveLine <= line) {
+            regionDirective = undefined;
+          }
+          break;
+      }
+    }
+
+    return regionDirective ?? fileDirective;
+  }
+}
+
+function appliesTo(directive: SuppressionDirective, ruleId: string): boolean {
+  return directive.rules.length === 0 || directive.rules.includes(ruleId);
+}
+
+function coversLine(range: SourceRange, line: number): boolean {
+  return range.start.line <= line && line <= range.end.line;
+}
@@ -0,0 +1,44 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// `.jericofx` holds generated LuaLS definitions, which are not resource code.
+const SKIPPED_DIRECTORIES = new Set(['node_modules', '.git', '.jericofx']);
+
+/** Lua files under `target`, or `target` itself when it is a Lua file. */
+export function findLuaFiles(target: string): string[] {
+  return findFiles(target, (fileName) => fileName.endsWith('.lua'));
+}
+
+/**
+ * Files under `target`, or `target` itself, whose name matches, skipping
+ * node_modules, .git and .jericofx. Folders that do not exist or cannot be
+ * read are skipped as well.
+ */
+export function findFiles(target: string, matches: (fileName: string) => boolean): string[] {
+  const files: string[] = [];
+  if (fs.statSync(target, { throwIfNoEntry: false })?.isFile()) {
+    if (matches(path.basename(target))) {
+      files.push(target);
+    }
+    return files;
+  }
+
+  const visit = (directory: string) => {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(directory, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      const entryPath = path.join(directory, entry.name);
+      if (entry.isDirectory() && !SKIPPED_DIRECTORIES.has(entry.name)) {
+        visit(entryPath);
+      } else if (entry.isFile() && matches(entry.name)) {
+        files.push(entryPath);
+      }
+    }
+  };
+  visit(target);
+  return files;
+}
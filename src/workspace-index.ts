@@ -0,0 +1,148 @@
+import { collectExports, ExportDeclaration } from './exports';
+import { AnalysisContext } from './lint-context';
+import { collectEventReferences, EventReference } from './net-events';
+import { YieldAnalyzer, YieldReason } from './yield-analysis';
+
+// Cross-file yield detection converges quickly; this only bounds pathological helper chains.
+const MAX_INDEX_PASSES = 5;
+
+/** Facts about one Lua file that other files can depend on. */
+export interface FileSummary {
+  /** Global functions declared in the file that always yield, by name. */
+  yieldingFunctions: Map<string, YieldReason>;
+  /** Events the file registers or triggers. */
+  events: EventReference[];
+  /** Functions the file exports to other resources. */
+  exports: ExportDeclaration[];
+}
+
+/**
+ * Workspace-wide view of every indexed Lua file. The index only stores
+ * summaries; callers parse files and feed them in, so it has no editor
+ * dependencies.
+ */
+export class WorkspaceIndex {
+  private readonly files = new Map<string, FileSummary>();
+
+  /**
+   * Stores the summary of a file. Returns whether its events or exports
+   * changed, in which case other files may need to be checked again.
+   */
+  updateFile(filePath: string, summary: FileSummary): boolean {
+    const yieldingFunctions = new Map<string, YieldReason>();
+    summary.yieldingFunctions.forEach((reason, name) =>
+      yieldingFunctions.set(name, withFilePath(reason, filePath))
+    );
+    const events = summary.events.map((reference) => ({ ...reference, filePath }));
+    const exports = summary.exports.map((declaration) => ({ ...declaration, filePath }));
+
+    const previous = this.files.get(filePath);
+    this.files.set(filePath, { yieldingFunctions, events, exports });
+    return !previous || getSharedKey(previous) !== getSharedKey({ yieldingFunctions, events, exports });
+  }
+
+  /** Returns whether the file was indexed. */
+  removeFile(filePath: string): boolean {
+    return this.files.delete(filePath);
+  }
+
+  hasFile(filePath: string): boolean {
+    return this.files.has(filePath);
+  }
+
+  /**
+   * Looks up a global function that always yields. `excludeFile` skips the
+   * caller's own file, whose functions are resolved from its syntax tree.
+   */
+  findYieldingFunction(name: string, excludeFile?: string): YieldReason | undefined {
+    for (const [filePath, summary] of this.files) {
+      if (filePath === excludeFile) {
+        continue;
+      }
+      const reason = summary.yieldingFunctions.get(name);
+      if (reason) {
+        return reason;
+      }
+    }
+    return undefined;
+  }
+
+  /** Event references of every indexed file except `excludeFile`. */
+  getEventReferences(excludeFile?: string): EventReference[] {
+    const references: EventReference[] = [];
+    for (const [filePath, summary] of this.files) {
+      if (filePath !== excludeFile) {
+        references.push(...summary.events);
+      }
+    }
+    return references;
+  }
+
+  /** Exports `resource` declares in every indexed file except `excludeFile`. */
+  getExports(resource: string, excludeFile?: string): ExportDeclaration[] {
+    const exports: ExportDeclaration[] = [];
+    for (const [filePath, summary] of this.files) {
+      if (filePath !== excludeFile) {
+        exports.push(...summary.exports.filter((declaration) => declaration.resource === resource));
+      }
+    }
+    return exports;
+  }
+}
+
+/**
+ * Records the yielding global functions, events and exports of every file.
+ * Helpers may call helpers in files indexed later, so this repeats until
+ * nothing changes. Files with a syntax error keep their last summary.
+ * Returns whether the events or exports of any file changed.
+ */
+export function indexWorkspaceFiles(index: WorkspaceIndex, contexts: AnalysisContext[]): boolean {
+  const counts = new Map<string, number>();
+  let sharedChanged = false;
+
+  for (let pass = 0; pass < MAX_INDEX_PASSES; pass++) {
+    let changed = false;
+    for (const { filePath, ast, scopes, side, resource, yieldingFunctions } of contexts) {
+      if (!ast || !scopes) {
+        continue;
+      }
+      // Analyzers cache their results, so each pass needs a new one to see what the last pass found.
+      const analyzer = new YieldAnalyzer(ast, scopes, yieldingFunctions, (name) =>
+        index.findYieldingFunction(name, filePath)
+      );
+      const yielding = analyzer.getYieldingGlobals();
+      // Yielding functions only ever get added between passes, so comparing counts is enough.
+      changed = changed || yielding.size !== (counts.get(filePath) ?? 0);
+      counts.set(filePath, yielding.size);
+      const updated = index.updateFile(filePath, {
+        yieldingFunctions: yielding,
+        events: collectEventReferences(ast, side),
+        exports: resource ? collectExports(ast, scopes, resource.name, side) : [],
+      });
+      sharedChanged = sharedChanged || updated;
+    }
+    if (!changed) {
+      break;
+    }
+  }
+
+  return sharedChanged;
+}
+
+/** Identifies what other files can observe of a file's events and exports; locations do not matter. */
+function getSharedKey({ events, exports }: FileSummary): string {
+  return [
+    ...events.map(({ name, kind, target }) => `${kind}:${target}:${name}`),
+    ...exports.map(({ resource, name, side }) => `export:${resource}:${side}:${name}`),
+  ]
+    .sort()
+    .join('\n');
+}
+
+function withFilePath(reason: YieldReason, filePath: string): YieldReason {
+  return {
+    ...reason,
+    filePath: reason.filePath ?? filePath,
+    via: reason.via ? withFilePath(reason.via, filePath) : undefined,
+  };
+}
@@ -0,0 +1,317 @@
+import {
+  CallExpression,
+  Chunk,
+  Expression,
+  FunctionNode,
+  getCalleeName,
+  getQualifiedName,
+  isFunctionNode,
+  Node,
+  RepeatStatement,
+  SourceRange,
+  Statement,
+  walkAst,
+  WhileStatement,
+} from './lua-ast';
+import { ScopeAnalysis } from './lua-scope';
+
+export interface YieldReason {
+  /** Name of the yielding call, e.g. `Wait` or `tick`. */
+  callee: string;
+  range: SourceRange;
+  /** File that contains the call, when it is not the analyzed document. */
+  filePath?: string;
+  /** Why the called helper yields. */
+  via?: YieldReason;
+}
+
+export type GlobalYieldLookup = (name: string) => YieldReason | undefined;
+
+/**
+ * Decides whether loops and functions yield to the scheduler. Calls to
+ * known-yielding functions yield directly; calls to helpers declared in the
+ * same file (or found through `lookupGlobal`) yield when every path through
+ * the helper reaches a yielding call.
+ */
+export class YieldAnalyzer {
+  private readonly functionResults = new Map<FunctionNode, YieldReason | null>();
+  private readonly fileFunctions = new Map<string, FunctionNode>();
+  private readonly globalFunctionNames = new Set<string>();
+
+  constructor(
+    ast: Chunk,
+    private readonly scopes: ScopeAnalysis,
+    private readonly yieldingFunctions: ReadonlySet<string>,
+    private readonly lookupGlobal?: GlobalYieldLookup
+  ) {
+    this.collectFileFunctions(ast);
+  }
+
+  /** Returns why the loop body yields, or undefined when it never does. */
+  findLoopYield(loop: WhileStatement | RepeatStatement): YieldReason | undefined {
+    const nodes: Node[] = loop.type === 'RepeatStatement' ? [...loop.body, loop.condition] : loop.body;
+    let reason: YieldReason | undefined;
+
+    for (const root of nodes) {
+      walkAst(root, {
+        enter: (node) => {
+          // A Wait inside `CreateThread(function() ... end)` yields the new
+          // thread, not the loop that spawned it.
+          if (reason || isFunctionNode(node)) {
+            return false;
+          }
+          if (node.type === 'CallExpression') {
+            reason = this.callYields(node);
+          }
+        },
+      });
+    }
+
+    return reason;
+  }
+
+  /** Global functions declared in this file that always yield. */
+  getYieldingGlobals(): Map<string, YieldReason> {
+    const result = new Map<string, YieldReason>();
+    for (const name of this.globalFunctionNames) {
+      const reason = this.functionYields(this.fileFunctions.get(name)!);
+      if (reason) {
+        result.set(name, reason);
+      }
+    }
+    return result;
+  }
+
+  callYields(call: CallExpression): YieldReason | undefined {
+    const callee = getCalleeName(call);
+    if (!callee) {
+      return undefined;
+    }
+
+    if (this.yieldingFunctions.has(callee)) {
+      return { callee, range: call.range };
+    }
+
+    const target = this.resolveFunction(call);
+    if (target) {
+      const via = this.functionYields(target);
+      return via ? { callee, range: call.range, via } : undefined;
+    }
+
+    const via = this.isGlobalName(call) ? this.lookupGlobal?.(callee) : undefined;
+    return via ? { callee, range: call.range, via } : undefined;
+  }
+
+  functionYields(fn: FunctionNode): YieldReason | undefined {
+    const cached = this.functionResults.get(fn);
+    if (cached !== undefined) {
+      return cached ?? undefined;
+    }
+
+    // Mark as in progress so recursive helpers do not loop forever.
+    this.functionResults.set(fn, null);
+    const reason = this.blockYields(fn.body);
+    this.functionResults.set(fn, reason ?? null);
+    return reason;
+  }
+
+  private collectFileFunctions(ast: Chunk): void {
+    const register = (target: Expression, fn: FunctionNode) => {
+      const name = getQualifiedName(target);
+      if (!name) {
+        return;
+      }
+      this.fileFunctions.set(name, fn);
+      if (this.isGlobalRoot(target)) {
+        this.globalFunctionNames.add(name);
+      }
+    };
+
+    walkAst(ast, {
+      enter(node) {
+        if (node.type === 'FunctionDeclaration' && !node.isLocal) {
+          register(node.identifier, node);
+        }
+        if (node.type === 'AssignmentStatement') {
+          node.targets.forEach((target, index) => {
+            const value = node.init[index];
+            if (value?.type === 'FunctionExpression') {
+              register(target, value);
+            }
+          });
+        }
+      },
+    });
+  }
+
+  private isGlobalRoot(expression: Expression): boolean {
+    let root = expression;
+    while (root.type === 'MemberExpression') {
+      root = root.base;
+    }
+    return root.type === 'Identifier' && !this.scopes.getReference(root)?.binding;
+  }
+
+  private isGlobalName(call: CallExpression): boolean {
+    return this.isGlobalRoot(call.base);
+  }
+
+  private resolveFunction(call: CallExpression): FunctionNode | undefined {
+    if (call.base.type === 'Identifier') {
+      const binding = this.scopes.getReference(call.base)?.binding;
+      if (binding) {
+        return binding.value && isFunctionNode(binding.value as Node)
+          ? (binding.value as FunctionNode)
+          : undefined;
+      }
+    }
+
+    const name = getCalleeName(call);
+    return name ? this.fileFunctions.get(name) : undefined;
+  }
+
+  private blockYields(body: Statement[]): YieldReason | undefined {
+    for (const statement of body) {
+      const reason = this.statementYields(statement);
+      if (reason) {
+        return reason;
+      }
+      if (mayExitEarly(statement)) {
+        return undefined;
+      }
+    }
+    return undefined;
+  }
+
+  private statementYields(statement: Statement): YieldReason | undefined {
+    switch (statement.type) {
+      case 'CallStatement':
+        return this.expressionYields(statement.expression);
+      case 'LocalStatement':
+        return this.firstYield(statement.init);
+      case 'AssignmentStatement':
+        return this.firstYield(statement.init);
+      case 'CompoundAssignmentStatement':
+        return this.expressionYields(statement.value);
+      case 'ReturnStatement':
+        return this.firstYield(statement.arguments);
+      case 'DoStatement':
+        return this.blockYields(statement.body);
+      case 'WhileStatement':
+        return this.expressionYields(statement.condition);
+      case 'RepeatStatement':
+        return (
+          this.blockYields(statement.body) ??
+          (statement.body.some(mayExitEarly) ? undefined : this.expressionYields(statement.condition))
+        );
+      case 'IfStatement': {
+        const [first] = statement.clauses;
+        const conditionReason = first.condition && this.expressionYields(first.condition);
+        if (conditionReason) {
+          return conditionReason;
+        }
+        if (statement.clauses[statement.clauses.length - 1].type !== 'ElseClause') {
+          return undefined;
+        }
+        const reasons = statement.clauses.map((clause) => this.blockYields(clause.body));
+        return reasons.every(Boolean) ? reasons[0] : undefined;
+      }
+      case 'NumericForStatement':
+        return this.firstYield([statement.start, statement.end, ...(statement.step ? [statement.step] : [])]);
+      case 'GenericForStatement':
+        return this.firstYield(statement.iterators);
+      default:
+        return undefined;
+    }
+  }
+
+  private firstYield(expressions: Expression[]): YieldReason | undefined {
+    for (const expression of expressions) {
+      const reason = this.expressionYields(expression);
+      if (reason) {
+        return reason;
+      }
+    }
+    return undefined;
+  }
+
+  /** Returns a reason when evaluating the expression always yields. */
+  private expressionYields(expression: Expression): YieldReason | undefined {
+    switch (expression.type) {
+      case 'CallExpression':
+        return this.firstYield([expression.base, ...expression.arguments]) ?? this.callYields(expression);
+      case 'BinaryExpression':
+        // The right operand of `and`/`or` may be short-circuited.
+        return expression.operator === 'and' || expression.operator === 'or'
+          ? this.expressionYields(expression.left)
+          : this.firstYield([expression.left, expression.right]);
+      case 'UnaryExpression':
+        return this.expressionYields(expression.argument);
+      case 'ParenthesizedExpression':
+        return this.expressionYields(expression.expression);
+      case 'MemberExpression':
+        return this.expressionYields(expression.base);
+      case 'IndexExpression':
+        return this.firstYield([expression.base, expression.index]);
+      case 'VectorLiteral':
+        return this.firstYield(expression.components);
+      case 'TableConstructor':
+        return this.firstYield(
+          expression.fields.flatMap((field) => (field.type === 'TableKey' ? [field.key, field.value] : [field.value]))
+        );
+      default:
+        return undefined;
+    }
+  }
+}
+
+/**
+ * True when the statement can leave the enclosing block early through
+ * `return`, `goto`, or a `break` that is not owned by a nested loop.
+ */
+function mayExitEarly(statement: Statement): boolean {
+  let exits = false;
+  let loopDepth = 0;
+  const isLoop = (node: Node) =>
+    node.type === 'WhileStatement' ||
+    node.type === 'RepeatStatement' ||
+    node.type === 'NumericForStatement' ||
+    node.type === 'GenericForStatement';
+
+  walkAst(statement, {
+    enter(node) {
+      if (exits || isFunctionNode(node)) {
+        return false;
+      }
+      if (isLoop(node)) {
+        loopDepth++;
+      }
+      if (
+        node.type === 'ReturnStatement' ||
+        node.type === 'GotoStatement' ||
+        (node.type === 'BreakStatement' && loopDepth === 0)
+      ) {
+        exits = true;
+      }
+    },
+    leave(node) {
+      if (isLoop(node)) {
+        loopDepth--;
+      }
+    },
+  });
+
+  return exits;
+}
+
+/** Renders a reason chain such as "`tick()` (line 12) → `Wait()` (line 4 of utils.lua)". */
+export function formatYieldReason(reason: YieldReason, describeFile: (filePath: string) => string): string {
+  const steps: string[] = [];
+  for (let step: YieldReason | undefined = reason; step; step = step.via) {
+    const location = step.filePath
+      ? `line ${step.range.start.line + 1} of ${describeFile(step.filePath)}`
+      : `line ${step.range.start.line + 1}`;
+    steps.push(`\`${step.callee}()\` (${location})`);
+  }
+  return steps.join(' → ');
+}